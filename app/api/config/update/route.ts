@@ -2,6 +2,13 @@ import { getServerSession } from 'next-auth/next';
 import { NextRequest, NextResponse } from 'next/server';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { isProviderName } from '@/lib/llm';
+import { isCheckConclusionPolicy } from '@/lib/check-runs';
+import { validatePromptTemplate } from '@/lib/prompt-templates';
+import { recordPromptVersion } from '@/lib/prompt-versions';
+import { validateCustomRulePacks, validateDisabledRulePacks } from '@/lib/rule-packs';
+import { validateCustomRules } from '@/lib/custom-rules';
+import { isReviewPassId } from '@/lib/review-passes';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,7 +19,29 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { repositoryId, customPrompt, enabled } = body;
+    const {
+      repositoryId,
+      customPrompt,
+      enabled,
+      llmProvider,
+      llmModel,
+      chunkTokenBudget,
+      includePaths,
+      excludePaths,
+      maxFileDiffKb,
+      checkConclusionPolicy,
+      skipDrafts,
+      reviewOnReopened,
+      reviewOnReadyForReview,
+      triggerLabel,
+      ignoredAuthors,
+      ignoredBaseBranches,
+      shadowMode,
+      disabledRulePacks,
+      customRulePacks,
+      customRules,
+      reviewPasses,
+    } = body;
 
     if (!repositoryId) {
       return NextResponse.json(
@@ -21,6 +50,102 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (customPrompt != null && typeof customPrompt !== 'string') {
+      return NextResponse.json(
+        { error: 'customPrompt must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const templateErrors = customPrompt ? validatePromptTemplate(customPrompt) : [];
+    if (templateErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid prompt template: ${templateErrors.join('; ')}`, details: templateErrors },
+        { status: 400 }
+      );
+    }
+
+    if (llmProvider && !isProviderName(llmProvider)) {
+      return NextResponse.json(
+        { error: `Unknown LLM provider: ${llmProvider}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      chunkTokenBudget != null &&
+      (!Number.isInteger(chunkTokenBudget) || chunkTokenBudget < 1000)
+    ) {
+      return NextResponse.json(
+        { error: 'chunkTokenBudget must be an integer of at least 1000' },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of Object.entries({
+      includePaths,
+      excludePaths,
+      ignoredAuthors,
+      ignoredBaseBranches,
+    })) {
+      if (value != null && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+        return NextResponse.json(
+          { error: `${field} must be an array of glob strings` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (maxFileDiffKb != null && (!Number.isInteger(maxFileDiffKb) || maxFileDiffKb < 1)) {
+      return NextResponse.json(
+        { error: 'maxFileDiffKb must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of Object.entries({ skipDrafts, reviewOnReopened, reviewOnReadyForReview, shadowMode })) {
+      if (value != null && typeof value !== 'boolean') {
+        return NextResponse.json(
+          { error: `${field} must be true or false` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (triggerLabel != null && typeof triggerLabel !== 'string') {
+      return NextResponse.json(
+        { error: 'triggerLabel must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (checkConclusionPolicy && !isCheckConclusionPolicy(checkConclusionPolicy)) {
+      return NextResponse.json(
+        { error: `Unknown check conclusion policy: ${checkConclusionPolicy}` },
+        { status: 400 }
+      );
+    }
+
+    if (reviewPasses != null && (!Array.isArray(reviewPasses) || !reviewPasses.every(isReviewPassId))) {
+      return NextResponse.json(
+        { error: 'reviewPasses must be an array of review pass ids' },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, errors] of [
+      ['disabledRulePacks', disabledRulePacks != null ? validateDisabledRulePacks(disabledRulePacks) : []],
+      ['customRulePacks', customRulePacks != null ? validateCustomRulePacks(customRulePacks) : []],
+      ['customRules', customRules != null ? validateCustomRules(customRules) : []],
+    ] as const) {
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid ${field}: ${errors.join('; ')}`, details: errors },
+          { status: 400 }
+        );
+      }
+    }
+
     // Verify user owns this repository
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
@@ -38,17 +163,65 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Keep every change to the prompt as a new version
+    const current = await prisma.repositoryConfiguration.findUnique({
+      where: { repositoryId },
+    });
+    let promptVersionId = current?.promptVersionId ?? null;
+    if ((current?.customPrompt || null) !== (customPrompt || null)) {
+      const promptVersion = await recordPromptVersion(repositoryId, customPrompt || '', user.id);
+      promptVersionId = promptVersion.id;
+    }
+
     // Update or create configuration
     const config = await prisma.repositoryConfiguration.upsert({
       where: { repositoryId },
       update: {
         customPrompt: customPrompt || null,
+        promptVersionId,
         enabled: enabled ?? true,
+        llmProvider: llmProvider || null,
+        llmModel: llmModel || null,
+        chunkTokenBudget: chunkTokenBudget ?? null,
+        includePaths: includePaths ?? [],
+        excludePaths: excludePaths ?? [],
+        maxFileDiffKb: maxFileDiffKb ?? null,
+        checkConclusionPolicy: checkConclusionPolicy || null,
+        skipDrafts: skipDrafts ?? true,
+        reviewOnReopened: reviewOnReopened ?? true,
+        reviewOnReadyForReview: reviewOnReadyForReview ?? true,
+        triggerLabel: triggerLabel?.trim() || null,
+        ignoredAuthors: ignoredAuthors ?? [],
+        ignoredBaseBranches: ignoredBaseBranches ?? [],
+        shadowMode: shadowMode ?? false,
+        disabledRulePacks: disabledRulePacks ?? [],
+        customRulePacks: customRulePacks ?? [],
+        customRules: customRules ?? [],
+        reviewPasses: reviewPasses ?? [],
       },
       create: {
         repositoryId,
         customPrompt: customPrompt || null,
+        promptVersionId,
         enabled: enabled ?? true,
+        llmProvider: llmProvider || null,
+        llmModel: llmModel || null,
+        chunkTokenBudget: chunkTokenBudget ?? null,
+        includePaths: includePaths ?? [],
+        excludePaths: excludePaths ?? [],
+        maxFileDiffKb: maxFileDiffKb ?? null,
+        checkConclusionPolicy: checkConclusionPolicy || null,
+        skipDrafts: skipDrafts ?? true,
+        reviewOnReopened: reviewOnReopened ?? true,
+        reviewOnReadyForReview: reviewOnReadyForReview ?? true,
+        triggerLabel: triggerLabel?.trim() || null,
+        ignoredAuthors: ignoredAuthors ?? [],
+        ignoredBaseBranches: ignoredBaseBranches ?? [],
+        shadowMode: shadowMode ?? false,
+        disabledRulePacks: disabledRulePacks ?? [],
+        customRulePacks: customRulePacks ?? [],
+        customRules: customRules ?? [],
+        reviewPasses: reviewPasses ?? [],
       },
     });
 
@@ -2,6 +2,7 @@ import { getServerSession } from 'next-auth/next';
 import { NextResponse } from 'next/server';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import type { PassMetrics } from '@/lib/review-passes';
 
 /**
  * GET /api/metrics/summary
@@ -39,6 +40,7 @@ export async function GET() {
           estimatedSavings: '$0.00',
           averageLatencyMs: 0,
           averageGeminiTimeMs: 0,
+          passes: [],
           repositories: [],
         },
         { status: 200 }
@@ -63,6 +65,7 @@ export async function GET() {
           estimatedSavings: '$0.00',
           averageLatencyMs: 0,
           averageGeminiTimeMs: 0,
+          passes: [],
           repositories: user.repositories.map((r) => ({
             id: r.id,
             name: r.name,
@@ -111,6 +114,31 @@ export async function GET() {
           )
         : 0;
 
+    // Per-pass averages over multi-pass reviews
+    const passTotals = new Map<string, { reviews: number; durationMs: number; findings: number; failedChunks: number }>();
+    for (const metric of successfulMetrics) {
+      if (!metric.passMetrics) continue;
+      try {
+        for (const stats of JSON.parse(metric.passMetrics) as PassMetrics[]) {
+          const totals = passTotals.get(stats.pass) ?? { reviews: 0, durationMs: 0, findings: 0, failedChunks: 0 };
+          totals.reviews++;
+          totals.durationMs += stats.durationMs;
+          totals.findings += stats.findingCount;
+          totals.failedChunks += stats.failedChunks;
+          passTotals.set(stats.pass, totals);
+        }
+      } catch (error) {
+        console.error(`[METRICS] Could not read pass metrics of review ${metric.id}:`, error);
+      }
+    }
+    const passes = [...passTotals.entries()].map(([pass, totals]) => ({
+      pass,
+      reviews: totals.reviews,
+      averageDurationMs: Math.round(totals.durationMs / totals.reviews),
+      averageFindings: Math.round((totals.findings / totals.reviews) * 100) / 100,
+      failedChunks: totals.failedChunks,
+    }));
+
     // Per-repository breakdown
     const repositoryMetrics = user.repositories.map((repo) => {
       const repoMetrics = metrics.filter((m) => m.repositoryId === repo.id);
@@ -137,6 +165,7 @@ export async function GET() {
         estimatedSavings: `$${estimatedSavings.toFixed(2)}`,
         averageLatencyMs,
         averageGeminiTimeMs,
+        passes,
         repositories: repositoryMetrics,
       },
       { status: 200 }
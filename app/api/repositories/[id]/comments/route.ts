@@ -0,0 +1,67 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getPostedComments } from '@/lib/posted-comments';
+
+/**
+ * GET /api/repositories/:id/comments?prNumber=123
+ * Lists the comments the bot has posted on a pull request
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const repositoryId = parseInt(id, 10);
+    const prNumber = parseInt(request.nextUrl.searchParams.get('prNumber') || '', 10);
+
+    if (!repositoryId || !prNumber) {
+      return NextResponse.json(
+        { error: 'Missing repository id or prNumber' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const comments = await getPostedComments(repositoryId, prNumber);
+
+    // BigInt IDs don't serialize to JSON
+    return NextResponse.json(
+      comments.map((comment: { githubCommentId: bigint }) => ({
+        ...comment,
+        githubCommentId: comment.githubCommentId.toString(),
+        url: `https://github.com/${repository.fullName}/pull/${prNumber}#discussion_r${comment.githubCommentId}`,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching posted comments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch posted comments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { validatePromptTemplate } from '@/lib/prompt-templates';
+import { recordPromptVersion } from '@/lib/prompt-versions';
+
+/**
+ * POST /api/repositories/:id/prompt-versions/:versionId/restore
+ * Rolls the custom prompt back to an earlier version by saving it again as the newest version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, versionId } = await params;
+    const repositoryId = parseInt(id, 10);
+    const promptVersionId = parseInt(versionId, 10);
+
+    if (!repositoryId || !promptVersionId) {
+      return NextResponse.json(
+        { error: 'Missing repository id or version id' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const target = await prisma.promptVersion.findUnique({
+      where: { id: promptVersionId },
+    });
+
+    if (!target || target.repositoryId !== repositoryId) {
+      return NextResponse.json({ error: 'Prompt version not found' }, { status: 404 });
+    }
+
+    // Variables may have been removed since the version was saved
+    const templateErrors = validatePromptTemplate(target.template);
+    if (templateErrors.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid prompt template: ${templateErrors.join('; ')}`, details: templateErrors },
+        { status: 400 }
+      );
+    }
+
+    const restored = await recordPromptVersion(repositoryId, target.template, user.id, target.version);
+    await prisma.repositoryConfiguration.upsert({
+      where: { repositoryId },
+      update: {
+        customPrompt: target.template || null,
+        promptVersionId: restored.id,
+      },
+      create: {
+        repositoryId,
+        customPrompt: target.template || null,
+        promptVersionId: restored.id,
+      },
+    });
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error('Error restoring prompt version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore prompt version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getPromptVersions } from '@/lib/prompt-versions';
+
+/**
+ * GET /api/repositories/:id/prompt-versions
+ * Lists the saved versions of the repository's custom prompt, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const repositoryId = parseInt(id, 10);
+
+    if (!repositoryId) {
+      return NextResponse.json({ error: 'Missing repository id' }, { status: 400 });
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+      include: { configuration: true },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const versions = await getPromptVersions(repositoryId);
+    const currentId = repository.configuration?.promptVersionId ?? null;
+
+    return NextResponse.json(
+      versions.map((version: { id: number }) => ({
+        ...version,
+        current: version.id === currentId,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { buildSarifLog, buildStoredReviewRun, validateSarifLog } from '@/lib/sarif';
+
+/**
+ * GET /api/repositories/:id/reviews/:reviewId/sarif
+ * Exports the findings of a single review as a SARIF 2.1.0 log
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, reviewId } = await params;
+    const repositoryId = parseInt(id, 10);
+    const reviewMetricId = parseInt(reviewId, 10);
+
+    if (!repositoryId || !reviewMetricId) {
+      return NextResponse.json(
+        { error: 'Missing repository id or review id' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const review = await prisma.reviewMetric.findUnique({
+      where: { id: reviewMetricId },
+    });
+
+    if (!review || review.repositoryId !== repositoryId) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    if (!review.success || review.findings === null) {
+      return NextResponse.json(
+        { error: 'This review has no stored findings' },
+        { status: 404 }
+      );
+    }
+
+    const log = buildSarifLog([buildStoredReviewRun(review, repository.fullName)]);
+
+    const errors = validateSarifLog(log);
+    if (errors.length > 0) {
+      console.error(`[SARIF] Invalid log for review ${reviewMetricId}:`, errors);
+      return NextResponse.json(
+        { error: 'Generated SARIF log is invalid', details: errors },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(log, null, 2), {
+      headers: {
+        'Content-Type': 'application/sarif+json',
+        'Content-Disposition': `attachment; filename="${repository.name}-review-${reviewMetricId}.sarif"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SARIF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export SARIF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { buildSarifLog, buildStoredReviewRun, validateSarifLog, StoredReview } from '@/lib/sarif';
+
+/**
+ * GET /api/repositories/:id/sarif?prNumber=123
+ * Exports the findings of every completed review of a pull request as a
+ * SARIF 2.1.0 log, one run per review in the order they ran
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const repositoryId = parseInt(id, 10);
+    const prNumber = parseInt(request.nextUrl.searchParams.get('prNumber') || '', 10);
+
+    if (!repositoryId || !prNumber) {
+      return NextResponse.json(
+        { error: 'Missing repository id or prNumber' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reviews = await prisma.reviewMetric.findMany({
+      where: { repositoryId, prNumber, success: true, findings: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const log = buildSarifLog(
+      reviews.map((review: StoredReview) => buildStoredReviewRun(review, repository.fullName))
+    );
+
+    const errors = validateSarifLog(log);
+    if (errors.length > 0) {
+      console.error(`[SARIF] Invalid log for PR #${prNumber}:`, errors);
+      return NextResponse.json(
+        { error: 'Generated SARIF log is invalid', details: errors },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(log, null, 2), {
+      headers: {
+        'Content-Type': 'application/sarif+json',
+        'Content-Disposition': `attachment; filename="${repository.name}-pr-${prNumber}.sarif"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SARIF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export SARIF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getInstallationToken } from '@/lib/pr-reviewer';
+import { promoteShadowReview, readShadowComments } from '@/lib/shadow-reviews';
+
+/**
+ * POST /api/repositories/:id/shadow-reviews/:reviewId/promote
+ * Posts a review stored in shadow mode to its pull request
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; reviewId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, reviewId } = await params;
+    const repositoryId = parseInt(id, 10);
+    const shadowReviewId = parseInt(reviewId, 10);
+
+    if (!repositoryId || !shadowReviewId) {
+      return NextResponse.json(
+        { error: 'Missing repository id or review id' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const review = await prisma.shadowReview.findUnique({
+      where: { id: shadowReviewId },
+    });
+
+    if (!review || review.repositoryId !== repositoryId) {
+      return NextResponse.json({ error: 'Shadow review not found' }, { status: 404 });
+    }
+
+    if (review.promotedAt) {
+      return NextResponse.json(
+        { error: 'This review was already posted' },
+        { status: 409 }
+      );
+    }
+
+    const { errors } = readShadowComments(review);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Stored review is invalid', details: errors },
+        { status: 422 }
+      );
+    }
+
+    const token = await getInstallationToken();
+    const promoted = await promoteShadowReview(shadowReviewId, token);
+
+    return NextResponse.json(promoted);
+  } catch (error) {
+    console.error('Error promoting shadow review:', error);
+    return NextResponse.json(
+      { error: 'Failed to post shadow review' },
+      { status: 500 }
+    );
+  }
+}
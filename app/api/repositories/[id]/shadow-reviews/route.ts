@@ -0,0 +1,66 @@
+import { getServerSession } from 'next-auth/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getShadowReviews } from '@/lib/shadow-reviews';
+
+/**
+ * GET /api/repositories/:id/shadow-reviews?prNumber=123
+ * Lists the reviews stored in shadow mode, optionally for one pull request
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || !session.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const repositoryId = parseInt(id, 10);
+    const prNumberParam = request.nextUrl.searchParams.get('prNumber');
+    const prNumber = prNumberParam ? parseInt(prNumberParam, 10) : undefined;
+
+    if (!repositoryId || Number.isNaN(prNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid repository id or prNumber' },
+        { status: 400 }
+      );
+    }
+
+    // Verify user owns this repository
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const repository = await prisma.repository.findUnique({
+      where: { id: repositoryId },
+    });
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reviews = await getShadowReviews(repositoryId, prNumber);
+
+    return NextResponse.json(
+      reviews.map((review: { prNumber: number }) => ({
+        ...review,
+        url: `https://github.com/${repository.fullName}/pull/${review.prNumber}`,
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching shadow reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shadow reviews' },
+      { status: 500 }
+    );
+  }
+}
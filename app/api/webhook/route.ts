@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
 import { prisma } from '@/lib/prisma';
 import { reviewPullRequest } from '@/lib/pr-reviewer';
+import { handleCommentEvent } from '@/lib/conversation';
+import { handleSlashCommand } from '@/lib/slash-commands';
+import { evaluateTrigger } from '@/lib/trigger-policy';
 
 // Verify GitHub webhook signature
 function verifyGitHubSignature(req: NextRequest, body: string): boolean {
@@ -97,6 +100,36 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ status: 'installation_ignored' }, { status: 202 });
     }
 
+    // ============================================
+    // COMMENT EVENTS (Slash commands, follow-ups when the bot is mentioned)
+    // ============================================
+    if (eventType === 'issue_comment' || eventType === 'pull_request_review_comment') {
+      try {
+        if (eventType === 'issue_comment') {
+          const command = await handleSlashCommand(payload);
+          if (command.handled) {
+            console.log(`[WEBHOOK] Slash command handled: ${command.status}`);
+            return NextResponse.json({ status: command.status }, { status: 200 });
+          }
+        }
+
+        const result = await handleCommentEvent(eventType, payload);
+        console.log(`[WEBHOOK] Comment event handled: ${result.status}`);
+        return NextResponse.json(
+          { status: result.status },
+          { status: result.replied ? 200 : 202 }
+        );
+      } catch (followUpError) {
+        const errorMsg = followUpError instanceof Error ? followUpError.message : String(followUpError);
+        console.error('[WEBHOOK] Comment handling failed:', errorMsg);
+
+        return NextResponse.json(
+          { error: 'Comment handling failed', message: errorMsg },
+          { status: 500 }
+        );
+      }
+    }
+
     // ============================================
     // PULL REQUEST EVENTS (Fast, async via queue)
     // ============================================
@@ -110,12 +143,6 @@ export async function POST(request: NextRequest) {
     console.log('[WEBHOOK] Repository ID:', repository?.id);
     console.log('[WEBHOOK] PR title:', pull_request?.title);
 
-    // Only process opened or synchronized events
-    if (action !== 'opened' && action !== 'synchronize') {
-      console.log(`[WEBHOOK] Ignoring PR action: ${action}`);
-      return NextResponse.json({ status: 'ignored' }, { status: 202 });
-    }
-
     // Check if repository exists
     const githubRepoId = repository.id;
     const dbRepository = await prisma.repository.findUnique({
@@ -140,6 +167,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Apply the repository's trigger policy (drafts, labels, authors, branches)
+    const trigger = evaluateTrigger(payload, dbRepository.configuration);
+    if (!trigger.review) {
+      console.log(`[WEBHOOK] Skipping PR #${pull_request.number} (${trigger.rule}): ${trigger.reason}`);
+      return NextResponse.json(
+        { status: 'skipped', rule: trigger.rule, reason: trigger.reason },
+        { status: 202 }
+      );
+    }
+
     // ============================================
     // PROCESS PR REVIEW (Synchronous)
     // ============================================
@@ -164,7 +201,12 @@ export async function POST(request: NextRequest) {
           githubApiDurationMs: metrics.githubApiDurationMs,
           filesTotalCount: metrics.filesTotalCount || 0,
           fileCachedCount: metrics.fileCachedCount || 0,
+          rejectedCommentCount: metrics.rejectedCommentCount || 0,
           cacheHit: (metrics.fileCachedCount || 0) > 0,
+          headSha: metrics.headSha ?? null,
+          findings: metrics.findings ? JSON.stringify(metrics.findings) : null,
+          promptVersionId: metrics.promptVersionId ?? null,
+          passMetrics: metrics.passMetrics?.length ? JSON.stringify(metrics.passMetrics) : null,
         },
       });
 
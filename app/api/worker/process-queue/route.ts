@@ -110,7 +110,12 @@ export async function POST(request: NextRequest) {
                 githubApiDurationMs: metrics.githubApiDurationMs,
                 filesTotalCount: metrics.filesTotalCount || 0,
                 fileCachedCount: metrics.fileCachedCount || 0,
+                rejectedCommentCount: metrics.rejectedCommentCount || 0,
                 cacheHit: (metrics.fileCachedCount || 0) > 0,
+                headSha: metrics.headSha ?? null,
+                findings: metrics.findings ? JSON.stringify(metrics.findings) : null,
+                promptVersionId: metrics.promptVersionId ?? null,
+                passMetrics: metrics.passMetrics?.length ? JSON.stringify(metrics.passMetrics) : null,
               },
             });
 
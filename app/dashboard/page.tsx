@@ -4,6 +4,10 @@ import { useSession, signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import RepositorySettings from '@/components/RepositorySettings';
+import PostedComments from '@/components/PostedComments';
+import ShadowReviews from '@/components/ShadowReviews';
+import type { CustomRulePack } from '@/lib/rule-packs';
+import type { CustomRule } from '@/lib/custom-rules';
 
 interface Repository {
   id: number;
@@ -16,6 +20,24 @@ interface Repository {
     id: number;
     customPrompt: string | null;
     enabled: boolean;
+    llmProvider: string | null;
+    llmModel: string | null;
+    chunkTokenBudget: number | null;
+    includePaths: string[];
+    excludePaths: string[];
+    maxFileDiffKb: number | null;
+    checkConclusionPolicy: string | null;
+    skipDrafts: boolean;
+    reviewOnReopened: boolean;
+    reviewOnReadyForReview: boolean;
+    triggerLabel: string | null;
+    ignoredAuthors: string[];
+    ignoredBaseBranches: string[];
+    shadowMode: boolean;
+    disabledRulePacks: string[];
+    customRulePacks: CustomRulePack[];
+    customRules: CustomRule[];
+    reviewPasses: string[];
   };
 }
 
@@ -132,10 +154,20 @@ export default function DashboardPage() {
           {/* Configuration Panel */}
           <div className="col-span-2">
             {selectedRepo ? (
-              <RepositorySettings
-                repository={selectedRepo}
-                onUpdate={() => fetchRepositories()}
-              />
+              <>
+                <RepositorySettings
+                  repository={selectedRepo}
+                  onUpdate={() => fetchRepositories()}
+                />
+                <PostedComments
+                  key={selectedRepo.id}
+                  repositoryId={selectedRepo.id}
+                />
+                <ShadowReviews
+                  key={`shadow-${selectedRepo.id}`}
+                  repositoryId={selectedRepo.id}
+                />
+              </>
             ) : (
               <div className="rounded-lg bg-gray-800 p-6 text-center">
                 <p className="text-gray-400">
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import { formatPassNames } from '@/lib/review-passes';
 
 interface MetricsData {
   totalPRs: number;
@@ -13,6 +14,13 @@ interface MetricsData {
   estimatedSavings: string;
   averageLatencyMs: number;
   averageGeminiTimeMs: number;
+  passes: Array<{
+    pass: string;
+    reviews: number;
+    averageDurationMs: number;
+    averageFindings: number;
+    failedChunks: number;
+  }>;
   repositories: Array<{
     id: number;
     name: string;
@@ -163,6 +171,37 @@ export default function MetricsPage() {
           </div>
         )}
 
+        {/* Review Passes */}
+        {metrics.passes.length > 0 && (
+          <div className="mt-8 bg-slate-700 rounded-lg p-6">
+            <h2 className="text-xl font-bold text-white mb-6">🔎 Review Passes</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-slate-600">
+                    <th className="px-4 py-2 text-slate-300">Pass</th>
+                    <th className="px-4 py-2 text-slate-300">Reviews</th>
+                    <th className="px-4 py-2 text-slate-300">Average Model Time</th>
+                    <th className="px-4 py-2 text-slate-300">Average Findings</th>
+                    <th className="px-4 py-2 text-slate-300">Failed Chunks</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.passes.map((pass) => (
+                    <tr key={pass.pass} className="border-b border-slate-600 hover:bg-slate-600">
+                      <td className="px-4 py-3 font-semibold text-white">{formatPassNames([pass.pass])}</td>
+                      <td className="px-4 py-3 text-white">{pass.reviews}</td>
+                      <td className="px-4 py-3 text-blue-400">{pass.averageDurationMs}ms</td>
+                      <td className="px-4 py-3 text-white">{pass.averageFindings}</td>
+                      <td className="px-4 py-3 text-red-400">{pass.failedChunks}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* ROI Summary */}
         <div className="mt-8 bg-gradient-to-r from-green-500 to-emerald-500 rounded-lg p-8">
           <h2 className="text-2xl font-bold text-white mb-4">🎯 ROI Summary</h2>
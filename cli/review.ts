@@ -0,0 +1,241 @@
+/**
+ * ReviewBuddy CLI
+ * Reviews a local diff with the same engine as the webhook (diff parsing,
+ * chunking, LLM call, validation) without a database or GitHub, so prompt and
+ * config changes can be tried before opening a pull request
+ *
+ *   npm run review -- changes.patch
+ *   git diff main | npm run review -- --format json
+ *   npm run review -- --git main..HEAD --provider anthropic --format sarif > review.sarif
+ *
+ * Honors .reviewbuddy.yml in the working directory (or --config). Exit codes:
+ * 0 = reviewed, 1 = findings fail the configured check_conclusion policy, 2 = error
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { parseArgs } from 'util';
+import { getProvider } from '../lib/llm';
+import { parseAndHashDiff, reviewDiffFiles } from '../lib/review-engine';
+import { filterDiffFiles, formatSkippedFiles, SkippedFile } from '../lib/path-filters';
+import { parseRepoConfig, mergeConfig, formatConfigErrors, REPO_CONFIG_PATH, RepoFileConfig } from '../lib/repo-config';
+import { getCheckConclusion, isCheckConclusionPolicy } from '../lib/check-runs';
+import { formatFindingComment, formatSeverityCounts, sortBySeverity } from '../lib/findings';
+import { buildSarifLog, buildSarifRun } from '../lib/sarif';
+import { renderPromptTemplate, fileVariables } from '../lib/prompt-templates';
+import { resolveRulePacks } from '../lib/rule-packs';
+import { resolveReviewPasses } from '../lib/review-passes';
+import type { LineComment } from '../lib/pr-reviewer';
+
+const FORMATS = ['markdown', 'json', 'sarif'] as const;
+type OutputFormat = (typeof FORMATS)[number];
+
+const USAGE = `Usage: npm run review -- [patch-file | -] [options]
+
+Reads the diff from a patch file, stdin ("-" or piped input) or a git range.
+
+Options:
+  --git <range>        Review "git diff <range>" in the working copy, e.g. main..HEAD
+  --format <format>    markdown (default), json or sarif
+  --provider <name>    LLM provider (overrides .reviewbuddy.yml and LLM_PROVIDER)
+  --model <name>       Model for the provider
+  --config <path>      Config file (default: ${REPO_CONFIG_PATH} if present)
+  --verbose            Print pipeline logs to stderr
+  -h, --help           Show this help`;
+
+interface ReviewReport {
+  findings: LineComment[];
+  unanchored: LineComment[];
+  fallbackReviews: string[];
+  failedPaths: string[];
+  skipped: SkippedFile[];
+  configErrors: string[];
+}
+
+class UsageError extends Error {}
+
+/**
+ * Read the diff from the git range, patch file or stdin
+ */
+function readDiff(source: string | undefined, gitRange: string | undefined): string {
+  if (gitRange) {
+    return execFileSync('git', ['diff', '--no-color', '--no-ext-diff', gitRange], {
+      encoding: 'utf8',
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  }
+  if (source && source !== '-') {
+    if (!existsSync(source)) {
+      throw new UsageError(`Patch file not found: ${source}`);
+    }
+    return readFileSync(source, 'utf8');
+  }
+  if (source === '-' || !process.stdin.isTTY) {
+    return readFileSync(0, 'utf8');
+  }
+  throw new UsageError('No diff given: pass a patch file, pipe a diff on stdin or use --git <range>');
+}
+
+/**
+ * Load the local config file; a missing default file means no file config
+ */
+function loadConfigFile(path: string | undefined): { config: RepoFileConfig | null; errors: string[] } {
+  const configPath = path ?? REPO_CONFIG_PATH;
+  if (!existsSync(configPath)) {
+    if (path) {
+      throw new UsageError(`Config file not found: ${path}`);
+    }
+    return { config: null, errors: [] };
+  }
+  return parseRepoConfig(readFileSync(configPath, 'utf8'));
+}
+
+function formatLocation(finding: LineComment): string {
+  const lines = finding.startLine && finding.startLine < finding.line ? `${finding.startLine}-${finding.line}` : `${finding.line}`;
+  return `\`${finding.file}\`:${lines}${finding.side === 'LEFT' ? ' (deleted line)' : ''}`;
+}
+
+function formatMarkdown(report: ReviewReport): string {
+  const allFindings = [...report.findings, ...report.unanchored];
+  const sections = [
+    `### 🤖 AI Code Review\n\n${
+      allFindings.length > 0
+        ? `Found ${allFindings.length} finding(s): ${formatSeverityCounts(allFindings)}`
+        : '✅ No issues found.'
+    }`,
+    ...sortBySeverity(report.findings).map((f) => `#### ${formatLocation(f)}\n\n${formatFindingComment(f)}`),
+  ];
+
+  if (report.unanchored.length > 0) {
+    sections.push(
+      `#### Comments outside the diff\n\n${sortBySeverity(report.unanchored)
+        .map((f) => `- ${formatLocation(f)}: ${f.comment}`)
+        .join('\n')}`
+    );
+  }
+  sections.push(...report.fallbackReviews);
+
+  const failureNote =
+    report.failedPaths.length > 0
+      ? `\n\n⚠️ The following file(s) could not be reviewed: ${report.failedPaths.map((p) => `\`${p}\``).join(', ')}`
+      : '';
+
+  return `${sections.join('\n\n')}${failureNote}${formatSkippedFiles(report.skipped)}${formatConfigErrors(report.configErrors)}\n`;
+}
+
+function formatReport(report: ReviewReport, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case 'sarif':
+      return `${JSON.stringify(buildSarifLog([buildSarifRun([...report.findings, ...report.unanchored])]), null, 2)}\n`;
+    case 'markdown':
+      return formatMarkdown(report);
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      git: { type: 'string' },
+      format: { type: 'string', default: 'markdown' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      config: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format: ${values.format} (expected ${FORMATS.join(', ')})`);
+  }
+  if (positionals.length > 1 || (positionals.length > 0 && values.git)) {
+    throw new UsageError('Pass a single diff source');
+  }
+
+  // npm run starts in the package directory; paths and git refer to where the command was typed
+  if (process.env.INIT_CWD) {
+    process.chdir(process.env.INIT_CWD);
+  }
+
+  // stdout carries the report; pipeline logs go to stderr only when asked for
+  console.log = values.verbose ? console.error : () => {};
+
+  const { config: fileConfig, errors: configErrors } = loadConfigFile(values.config);
+  configErrors.forEach((error) => console.error(`${values.config ?? REPO_CONFIG_PATH}: ${error}`));
+  const config = mergeConfig(null, fileConfig);
+
+  // Like the config file, a provider given on the command line doesn't inherit another provider's model
+  const provider = getProvider({
+    provider: values.provider ?? config.llmProvider,
+    model: values.model ?? (values.provider ? null : config.llmModel),
+  });
+
+  const diff = readDiff(positionals[0], values.git);
+  const { included, skipped } = filterDiffFiles(parseAndHashDiff(diff), config);
+
+  const report: ReviewReport = {
+    findings: [],
+    unanchored: [],
+    fallbackReviews: [],
+    failedPaths: [],
+    skipped,
+    configErrors,
+  };
+
+  if (included.length > 0) {
+    console.error(`Reviewing ${included.length} file(s) with ${provider.name} (${provider.model})...`);
+    // Pull request variables have no local equivalent and render empty
+    const customPrompt = config.customPrompt
+      ? renderPromptTemplate(config.customPrompt, {
+          repo: basename(process.cwd()),
+          ...fileVariables(included.map((f) => f.path)),
+        })
+      : null;
+    const result = await reviewDiffFiles(included, {
+      customPrompt,
+      provider,
+      chunkTokenBudget: config.chunkTokenBudget,
+      rulePacks: resolveRulePacks(config.disabledRulePacks, config.customRulePacks),
+      customRules: config.customRules,
+      passes: resolveReviewPasses(config.reviewPasses),
+    });
+    report.findings = result.anchored;
+    report.unanchored = result.unanchored;
+    report.fallbackReviews = result.fallbackReviews;
+    report.failedPaths = [...result.failedPaths];
+  } else {
+    console.error('No reviewable changes in the diff');
+  }
+
+  process.stdout.write(formatReport(report, format));
+
+  const policy = config.checkConclusionPolicy;
+  if (isCheckConclusionPolicy(policy) && getCheckConclusion([...report.findings, ...report.unanchored], policy) === 'failure') {
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error('Review failed:', error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 2;
+  }
+);
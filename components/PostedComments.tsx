@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PostedComment {
+  id: number;
+  prNumber: number;
+  filePath: string;
+  line: number;
+  body: string;
+  githubCommentId: string;
+  url: string;
+  createdAt: string;
+}
+
+interface Props {
+  repositoryId: number;
+}
+
+export default function PostedComments({ repositoryId }: Props) {
+  const [prNumber, setPrNumber] = useState('');
+  const [comments, setComments] = useState<PostedComment[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleLoad = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const response = await fetch(
+        `/api/repositories/${repositoryId}/comments?prNumber=${encodeURIComponent(prNumber)}`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to load comments');
+      }
+
+      setComments(await response.json());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load comments');
+      setComments(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 rounded-lg bg-gray-800 p-6">
+      <h2 className="mb-4 text-lg font-semibold text-white">Bot Comments</h2>
+
+      <div className="mb-4 flex gap-4">
+        <input
+          type="number"
+          min={1}
+          value={prNumber}
+          onChange={(e) => setPrNumber(e.target.value)}
+          placeholder="PR number"
+          className="flex-1 rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+        <button
+          onClick={handleLoad}
+          disabled={loading || !prNumber}
+          className="rounded-lg bg-blue-600 px-4 py-3 font-semibold text-white hover:bg-blue-700 disabled:bg-gray-600 transition"
+        >
+          {loading ? 'Loading...' : 'Show Comments'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-red-900 p-4 text-red-200">{error}</div>
+      )}
+
+      {comments && (
+        <a
+          href={`/api/repositories/${repositoryId}/sarif?prNumber=${encodeURIComponent(prNumber)}`}
+          className="mb-4 inline-block text-sm text-blue-400 hover:underline"
+        >
+          Download findings as SARIF
+        </a>
+      )}
+
+      {comments && comments.length === 0 && (
+        <p className="text-sm text-gray-400">No bot comments on this PR.</p>
+      )}
+
+      {comments && comments.length > 0 && (
+        <div className="space-y-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="rounded-lg bg-gray-700 p-4">
+              <div className="mb-2 flex items-center justify-between text-xs text-gray-400">
+                <span className="font-mono">
+                  {comment.filePath}:{comment.line}
+                </span>
+                <a
+                  href={comment.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:underline"
+                >
+                  View on GitHub
+                </a>
+              </div>
+              <p className="whitespace-pre-wrap text-sm text-gray-200">{comment.body}</p>
+              <p className="mt-2 text-xs text-gray-500">
+                {new Date(comment.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { PROMPT_VARIABLES } from '@/lib/prompt-templates';
+import { BUILT_IN_RULE_PACKS, RULE_LANGUAGES, CustomRulePack } from '@/lib/rule-packs';
+import { CATEGORIES, CATEGORY_LABELS, SEVERITIES, SEVERITY_BADGES, Category, Severity } from '@/lib/findings';
+import type { CustomRule, RuleScope } from '@/lib/custom-rules';
+import { REVIEW_PASSES } from '@/lib/review-passes';
 
 interface Repository {
   id: number;
@@ -13,14 +18,114 @@ interface Repository {
     id: number;
     customPrompt: string | null;
     enabled: boolean;
+    llmProvider: string | null;
+    llmModel: string | null;
+    chunkTokenBudget: number | null;
+    includePaths: string[];
+    excludePaths: string[];
+    maxFileDiffKb: number | null;
+    checkConclusionPolicy: string | null;
+    skipDrafts: boolean;
+    reviewOnReopened: boolean;
+    reviewOnReadyForReview: boolean;
+    triggerLabel: string | null;
+    ignoredAuthors: string[];
+    ignoredBaseBranches: string[];
+    shadowMode: boolean;
+    disabledRulePacks: string[];
+    customRulePacks: CustomRulePack[];
+    customRules: CustomRule[];
+    reviewPasses: string[];
   };
 }
 
+interface PromptVersion {
+  id: number;
+  version: number;
+  template: string;
+  restoredFrom: number | null;
+  current: boolean;
+  author: { name: string | null; email: string | null } | null;
+  createdAt: string;
+}
+
+// A custom rule pack as edited in the form, lists one entry per line
+interface RulePackForm {
+  name: string;
+  language: string;
+  paths: string;
+  rules: string;
+}
+
+// A custom rule as edited in the form, paths one glob per line
+interface RuleForm {
+  id: string;
+  pattern: string;
+  unless: string;
+  paths: string;
+  scope: string;
+  message: string;
+  severity: string;
+  category: string;
+}
+
 interface Props {
   repository: Repository;
   onUpdate: () => void;
 }
 
+// One glob per line, blank lines ignored
+function splitGlobs(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toRuleForms(rules: CustomRule[] | undefined): RuleForm[] {
+  return (rules || []).map((rule) => ({
+    id: rule.id,
+    pattern: rule.pattern,
+    unless: rule.unless || '',
+    paths: (rule.paths || []).join('\n'),
+    scope: rule.scope || 'line',
+    message: rule.message,
+    severity: rule.severity,
+    category: rule.category || 'readability',
+  }));
+}
+
+function fromRuleForms(forms: RuleForm[]): CustomRule[] {
+  return forms.map((form) => ({
+    id: form.id.trim(),
+    pattern: form.pattern,
+    ...(form.unless ? { unless: form.unless } : {}),
+    ...(splitGlobs(form.paths).length > 0 ? { paths: splitGlobs(form.paths) } : {}),
+    ...(form.scope !== 'line' ? { scope: form.scope as RuleScope } : {}),
+    message: form.message.trim(),
+    severity: form.severity as Severity,
+    category: form.category as Category,
+  }));
+}
+
+function toRulePackForms(packs: CustomRulePack[] | undefined): RulePackForm[] {
+  return (packs || []).map((pack) => ({
+    name: pack.name,
+    language: pack.language || '',
+    paths: (pack.paths || []).join('\n'),
+    rules: pack.rules.join('\n'),
+  }));
+}
+
+function fromRulePackForms(forms: RulePackForm[]): CustomRulePack[] {
+  return forms.map((form) => ({
+    name: form.name.trim(),
+    ...(form.language ? { language: form.language } : {}),
+    ...(splitGlobs(form.paths).length > 0 ? { paths: splitGlobs(form.paths) } : {}),
+    rules: splitGlobs(form.rules),
+  }));
+}
+
 export default function RepositorySettings({ repository, onUpdate }: Props) {
   const [customPrompt, setCustomPrompt] = useState(
     repository.configuration?.customPrompt || ''
@@ -28,10 +133,81 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
   const [enabled, setEnabled] = useState(
     repository.configuration?.enabled ?? true
   );
+  const [llmProvider, setLlmProvider] = useState(
+    repository.configuration?.llmProvider || ''
+  );
+  const [llmModel, setLlmModel] = useState(
+    repository.configuration?.llmModel || ''
+  );
+  const [chunkTokenBudget, setChunkTokenBudget] = useState(
+    repository.configuration?.chunkTokenBudget?.toString() || ''
+  );
+  const [includePaths, setIncludePaths] = useState(
+    (repository.configuration?.includePaths || []).join('\n')
+  );
+  const [excludePaths, setExcludePaths] = useState(
+    (repository.configuration?.excludePaths || []).join('\n')
+  );
+  const [maxFileDiffKb, setMaxFileDiffKb] = useState(
+    repository.configuration?.maxFileDiffKb?.toString() || ''
+  );
+  const [checkConclusionPolicy, setCheckConclusionPolicy] = useState(
+    repository.configuration?.checkConclusionPolicy || ''
+  );
+  const [skipDrafts, setSkipDrafts] = useState(
+    repository.configuration?.skipDrafts ?? true
+  );
+  const [reviewOnReopened, setReviewOnReopened] = useState(
+    repository.configuration?.reviewOnReopened ?? true
+  );
+  const [reviewOnReadyForReview, setReviewOnReadyForReview] = useState(
+    repository.configuration?.reviewOnReadyForReview ?? true
+  );
+  const [triggerLabel, setTriggerLabel] = useState(
+    repository.configuration?.triggerLabel || ''
+  );
+  const [ignoredAuthors, setIgnoredAuthors] = useState(
+    (repository.configuration?.ignoredAuthors || []).join('\n')
+  );
+  const [ignoredBaseBranches, setIgnoredBaseBranches] = useState(
+    (repository.configuration?.ignoredBaseBranches || []).join('\n')
+  );
+  const [shadowMode, setShadowMode] = useState(
+    repository.configuration?.shadowMode ?? false
+  );
+  const [reviewPasses, setReviewPasses] = useState<string[]>(
+    repository.configuration?.reviewPasses || []
+  );
+  const [disabledRulePacks, setDisabledRulePacks] = useState<string[]>(
+    repository.configuration?.disabledRulePacks || []
+  );
+  const [customRulePacks, setCustomRulePacks] = useState<RulePackForm[]>(
+    toRulePackForms(repository.configuration?.customRulePacks)
+  );
+  const [customRules, setCustomRules] = useState<RuleForm[]>(
+    toRuleForms(repository.configuration?.customRules)
+  );
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState('');
   const [messageType, setMessageType] = useState<'success' | 'error'>('success');
 
+  const loadPromptVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/repositories/${repository.id}/prompt-versions`);
+      if (response.ok) {
+        setPromptVersions(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to load prompt history:', error);
+    }
+  }, [repository.id]);
+
+  useEffect(() => {
+    loadPromptVersions();
+  }, [loadPromptVersions]);
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -44,16 +220,36 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
           repositoryId: repository.id,
           customPrompt: customPrompt || null,
           enabled,
+          llmProvider: llmProvider || null,
+          llmModel: llmModel || null,
+          chunkTokenBudget: chunkTokenBudget ? parseInt(chunkTokenBudget, 10) : null,
+          includePaths: splitGlobs(includePaths),
+          excludePaths: splitGlobs(excludePaths),
+          maxFileDiffKb: maxFileDiffKb ? parseInt(maxFileDiffKb, 10) : null,
+          checkConclusionPolicy: checkConclusionPolicy || null,
+          skipDrafts,
+          reviewOnReopened,
+          reviewOnReadyForReview,
+          triggerLabel: triggerLabel || null,
+          ignoredAuthors: splitGlobs(ignoredAuthors),
+          ignoredBaseBranches: splitGlobs(ignoredBaseBranches),
+          shadowMode,
+          reviewPasses,
+          disabledRulePacks,
+          customRulePacks: fromRulePackForms(customRulePacks),
+          customRules: fromRuleForms(customRules),
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to update configuration');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to update configuration');
       }
 
       setMessageType('success');
       setMessage('Configuration saved successfully!');
       onUpdate();
+      loadPromptVersions();
 
       setTimeout(() => setMessage(''), 3000);
     } catch (error) {
@@ -66,9 +262,81 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
     }
   };
 
+  const handleRestorePrompt = async (promptVersion: PromptVersion) => {
+    try {
+      setRestoringId(promptVersion.id);
+      setMessage('');
+
+      const response = await fetch(
+        `/api/repositories/${repository.id}/prompt-versions/${promptVersion.id}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to restore prompt');
+      }
+
+      setCustomPrompt(promptVersion.template);
+      setMessageType('success');
+      setMessage(`Prompt rolled back to version ${promptVersion.version}`);
+      onUpdate();
+      loadPromptVersions();
+
+      setTimeout(() => setMessage(''), 3000);
+    } catch (error) {
+      setMessageType('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to restore prompt');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
   const handleReset = () => {
     setCustomPrompt(repository.configuration?.customPrompt || '');
     setEnabled(repository.configuration?.enabled ?? true);
+    setLlmProvider(repository.configuration?.llmProvider || '');
+    setLlmModel(repository.configuration?.llmModel || '');
+    setChunkTokenBudget(repository.configuration?.chunkTokenBudget?.toString() || '');
+    setIncludePaths((repository.configuration?.includePaths || []).join('\n'));
+    setExcludePaths((repository.configuration?.excludePaths || []).join('\n'));
+    setMaxFileDiffKb(repository.configuration?.maxFileDiffKb?.toString() || '');
+    setCheckConclusionPolicy(repository.configuration?.checkConclusionPolicy || '');
+    setSkipDrafts(repository.configuration?.skipDrafts ?? true);
+    setReviewOnReopened(repository.configuration?.reviewOnReopened ?? true);
+    setReviewOnReadyForReview(repository.configuration?.reviewOnReadyForReview ?? true);
+    setTriggerLabel(repository.configuration?.triggerLabel || '');
+    setIgnoredAuthors((repository.configuration?.ignoredAuthors || []).join('\n'));
+    setIgnoredBaseBranches((repository.configuration?.ignoredBaseBranches || []).join('\n'));
+    setShadowMode(repository.configuration?.shadowMode ?? false);
+    setReviewPasses(repository.configuration?.reviewPasses || []);
+    setDisabledRulePacks(repository.configuration?.disabledRulePacks || []);
+    setCustomRulePacks(toRulePackForms(repository.configuration?.customRulePacks));
+    setCustomRules(toRuleForms(repository.configuration?.customRules));
+  };
+
+  const toggleReviewPass = (id: string, enabled: boolean) => {
+    setReviewPasses((current) =>
+      enabled ? [...current, id] : current.filter((passId) => passId !== id)
+    );
+  };
+
+  const toggleRulePack = (id: string, enabled: boolean) => {
+    setDisabledRulePacks((current) =>
+      enabled ? current.filter((packId) => packId !== id) : [...current, id]
+    );
+  };
+
+  const updateCustomRule = (index: number, changes: Partial<RuleForm>) => {
+    setCustomRules((current) =>
+      current.map((form, i) => (i === index ? { ...form, ...changes } : form))
+    );
+  };
+
+  const updateCustomRulePack = (index: number, changes: Partial<RulePackForm>) => {
+    setCustomRulePacks((current) =>
+      current.map((form, i) => (i === index ? { ...form, ...changes } : form))
+    );
   };
 
   return (
@@ -76,6 +344,11 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
       <div className="mb-4">
         <h2 className="text-xl font-semibold text-white">{repository.name}</h2>
         <p className="text-sm text-gray-400">{repository.fullName}</p>
+        <p className="mt-2 text-xs text-gray-500">
+          A <code>.reviewbuddy.yml</code> on the pull request&apos;s base branch
+          overrides these settings, except that disabling ReviewBuddy here
+          always wins and excluded paths are combined.
+        </p>
       </div>
 
       {message && (
@@ -109,6 +382,393 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
           </label>
         </div>
 
+        {/* Shadow Mode */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Shadow Mode
+          </label>
+          <label className="flex cursor-pointer items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={shadowMode}
+              onChange={(e) => setShadowMode(e.target.checked)}
+              className="h-5 w-5 rounded bg-gray-700"
+            />
+            <span className="text-gray-400">
+              Run reviews without posting them; browse and post them below
+            </span>
+          </label>
+        </div>
+
+        {/* Trigger Policy */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            When to Review
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Pull requests are reviewed when opened and on every push. With a
+            trigger label, only labeled pull requests are reviewed.
+          </p>
+          <div className="space-y-2">
+            {[
+              { label: 'Skip draft pull requests', checked: skipDrafts, onChange: setSkipDrafts },
+              { label: 'Review when a draft is marked ready for review', checked: reviewOnReadyForReview, onChange: setReviewOnReadyForReview },
+              { label: 'Review when a pull request is reopened', checked: reviewOnReopened, onChange: setReviewOnReopened },
+            ].map((option) => (
+              <label key={option.label} className="flex cursor-pointer items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={option.checked}
+                  onChange={(e) => option.onChange(e.target.checked)}
+                  className="h-5 w-5 rounded bg-gray-700"
+                />
+                <span className="text-gray-400">{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={triggerLabel}
+            onChange={(e) => setTriggerLabel(e.target.value)}
+            placeholder="Trigger label, e.g. ai-review (review all PRs if empty)"
+            className="mt-4 w-full rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <textarea
+              value={ignoredAuthors}
+              onChange={(e) => setIgnoredAuthors(e.target.value)}
+              placeholder={'Ignored authors\ndependabot[bot]'}
+              rows={3}
+              className="w-full rounded-lg bg-gray-700 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+            <textarea
+              value={ignoredBaseBranches}
+              onChange={(e) => setIgnoredBaseBranches(e.target.value)}
+              placeholder={'Ignored target branches\nrelease/*'}
+              rows={3}
+              className="w-full rounded-lg bg-gray-700 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+          </div>
+        </div>
+
+        {/* LLM Provider */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            AI Provider
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Leave on default to use the server&apos;s configured provider. The
+            OpenAI option works with any OpenAI-compatible endpoint.
+          </p>
+          <div className="flex gap-4">
+            <select
+              value={llmProvider}
+              onChange={(e) => setLlmProvider(e.target.value)}
+              className="flex-1 rounded-lg bg-gray-700 px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+            >
+              <option value="">Default</option>
+              <option value="gemini">Gemini</option>
+              <option value="openai">OpenAI-compatible</option>
+              <option value="anthropic">Anthropic</option>
+              <option value="fake">Fake (offline testing)</option>
+            </select>
+            <input
+              type="text"
+              value={llmModel}
+              onChange={(e) => setLlmModel(e.target.value)}
+              placeholder="Model (provider default)"
+              className="flex-1 rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+          </div>
+        </div>
+
+        {/* Chunk Token Budget */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Token Budget per Request
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Large diffs are split into chunks of roughly this many tokens.
+            Leave blank to use the server default.
+          </p>
+          <input
+            type="number"
+            min={1000}
+            value={chunkTokenBudget}
+            onChange={(e) => setChunkTokenBudget(e.target.value)}
+            placeholder="24000"
+            className="w-full rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+        </div>
+
+        {/* Path Filters */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Path Filters
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            One glob per line. Lockfiles, vendored, minified and generated files
+            are skipped by default; included paths override those defaults,
+            excluded paths always win.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <textarea
+              value={includePaths}
+              onChange={(e) => setIncludePaths(e.target.value)}
+              placeholder={'Include (all files if empty)\nsrc/**'}
+              rows={4}
+              className="w-full rounded-lg bg-gray-700 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+            <textarea
+              value={excludePaths}
+              onChange={(e) => setExcludePaths(e.target.value)}
+              placeholder={'Exclude\n**/*.test.ts'}
+              rows={4}
+              className="w-full rounded-lg bg-gray-700 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            />
+          </div>
+          <input
+            type="number"
+            min={1}
+            value={maxFileDiffKb}
+            onChange={(e) => setMaxFileDiffKb(e.target.value)}
+            placeholder="Max diff size per file in KB (default 100)"
+            className="mt-4 w-full rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+        </div>
+
+        {/* Check Run Conclusion */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Check Run Conclusion
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Each review is reported as a ReviewBuddy check with one annotation
+            per finding. Make the check fail to gate merges with branch
+            protection.
+          </p>
+          <select
+            value={checkConclusionPolicy}
+            onChange={(e) => setCheckConclusionPolicy(e.target.value)}
+            className="w-full rounded-lg bg-gray-700 px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+          >
+            <option value="">Never fail (informational)</option>
+            <option value="fail_on_blocker">Fail when a blocker is found</option>
+            <option value="fail_on_major">Fail when a blocker or major finding is found</option>
+          </select>
+        </div>
+
+        {/* Review Passes */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Review Passes
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Run focused passes instead of one generic review. Each pass reviews
+            the whole diff with its own prompt, so review time and cost grow
+            with every pass. Findings from several passes on the same lines are
+            merged.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {REVIEW_PASSES.map((pass) => (
+              <label key={pass.id} className="flex cursor-pointer items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={reviewPasses.includes(pass.id)}
+                  onChange={(e) => toggleReviewPass(pass.id, e.target.checked)}
+                  className="h-5 w-5 rounded bg-gray-700"
+                />
+                <span className="text-gray-400">{pass.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Rule Packs */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Rule Packs
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Each changed file&apos;s language is detected from its name,
+            extension or shebang, and the checklists for its language are added
+            to the prompt. Add your own packs for a language, for paths, or both.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {BUILT_IN_RULE_PACKS.map((pack) => (
+              <label key={pack.id} className="flex cursor-pointer items-center space-x-3" title={pack.rules.join('\n')}>
+                <input
+                  type="checkbox"
+                  checked={!disabledRulePacks.includes(pack.id)}
+                  onChange={(e) => toggleRulePack(pack.id, e.target.checked)}
+                  className="h-5 w-5 rounded bg-gray-700"
+                />
+                <span className="text-gray-400">{pack.name}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-4">
+            {customRulePacks.map((form, index) => (
+              <div key={index} className="rounded-lg bg-gray-700 p-4">
+                <div className="flex gap-4">
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => updateCustomRulePack(index, { name: e.target.value })}
+                    placeholder="Pack name, e.g. API handlers"
+                    className="flex-1 rounded-lg bg-gray-800 px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  <select
+                    value={form.language}
+                    onChange={(e) => updateCustomRulePack(index, { language: e.target.value })}
+                    className="rounded-lg bg-gray-800 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  >
+                    <option value="">Any language</option>
+                    {RULE_LANGUAGES.map((language) => (
+                      <option key={language.id} value={language.id}>{language.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setCustomRulePacks((current) => current.filter((_, i) => i !== index))}
+                    className="text-sm text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-4">
+                  <textarea
+                    value={form.paths}
+                    onChange={(e) => updateCustomRulePack(index, { paths: e.target.value })}
+                    placeholder={'Paths (optional)\napp/api/**'}
+                    rows={3}
+                    className="w-full rounded-lg bg-gray-800 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  <textarea
+                    value={form.rules}
+                    onChange={(e) => updateCustomRulePack(index, { rules: e.target.value })}
+                    placeholder={'One rule per line\nEvery handler checks the session'}
+                    rows={3}
+                    className="w-full rounded-lg bg-gray-800 px-4 py-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() =>
+              setCustomRulePacks((current) => [...current, { name: '', language: '', paths: '', rules: '' }])
+            }
+            className="mt-3 text-sm text-blue-400 hover:underline"
+          >
+            + Add rule pack
+          </button>
+        </div>
+
+        {/* Custom Rules */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-white">
+            Custom Rules
+          </label>
+          <p className="mb-3 text-xs text-gray-400">
+            Regular expressions checked against every added line without the
+            AI. Matches are posted as rule-based findings. Lines matching
+            &quot;unless&quot; are allowed, and the scope limits a rule to the
+            code or the comment part of a line.
+          </p>
+          <div className="space-y-4">
+            {customRules.map((form, index) => (
+              <div key={index} className="rounded-lg bg-gray-700 p-4">
+                <div className="flex gap-4">
+                  <input
+                    type="text"
+                    value={form.id}
+                    onChange={(e) => updateCustomRule(index, { id: e.target.value })}
+                    placeholder="Rule id, e.g. no-console-in-lib"
+                    className="flex-1 rounded-lg bg-gray-800 px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  <select
+                    value={form.severity}
+                    onChange={(e) => updateCustomRule(index, { severity: e.target.value })}
+                    className="rounded-lg bg-gray-800 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  >
+                    {SEVERITIES.map((severity) => (
+                      <option key={severity} value={severity}>{SEVERITY_BADGES[severity]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.category}
+                    onChange={(e) => updateCustomRule(index, { category: e.target.value })}
+                    className="rounded-lg bg-gray-800 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.scope}
+                    onChange={(e) => updateCustomRule(index, { scope: e.target.value })}
+                    className="rounded-lg bg-gray-800 px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  >
+                    <option value="line">Whole line</option>
+                    <option value="code">Code only</option>
+                    <option value="comment">Comments only</option>
+                  </select>
+                  <button
+                    onClick={() => setCustomRules((current) => current.filter((_, i) => i !== index))}
+                    className="text-sm text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-4">
+                  <input
+                    type="text"
+                    value={form.pattern}
+                    onChange={(e) => updateCustomRule(index, { pattern: e.target.value })}
+                    placeholder="Pattern, e.g. console\.log\("
+                    className="rounded-lg bg-gray-800 px-4 py-2 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  <input
+                    type="text"
+                    value={form.unless}
+                    onChange={(e) => updateCustomRule(index, { unless: e.target.value })}
+                    placeholder="Unless (optional), e.g. TODO\([A-Z]+-\d+\)"
+                    className="rounded-lg bg-gray-800 px-4 py-2 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-4">
+                  <textarea
+                    value={form.paths}
+                    onChange={(e) => updateCustomRule(index, { paths: e.target.value })}
+                    placeholder={'Paths (all files if empty)\nlib/**'}
+                    rows={2}
+                    className="w-full rounded-lg bg-gray-800 px-4 py-3 font-mono text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  <textarea
+                    value={form.message}
+                    onChange={(e) => updateCustomRule(index, { message: e.target.value })}
+                    placeholder="Message posted on matching lines"
+                    rows={2}
+                    className="w-full rounded-lg bg-gray-800 px-4 py-3 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() =>
+              setCustomRules((current) => [
+                ...current,
+                { id: '', pattern: '', unless: '', paths: '', scope: 'line', message: '', severity: 'minor', category: 'readability' },
+              ])
+            }
+            className="mt-3 text-sm text-blue-400 hover:underline"
+          >
+            + Add rule
+          </button>
+        </div>
+
         {/* Custom Prompt */}
         <div>
           <label className="mb-2 block text-sm font-semibold text-white">
@@ -116,15 +776,56 @@ export default function RepositorySettings({ repository, onUpdate }: Props) {
           </label>
           <p className="mb-3 text-xs text-gray-400">
             Leave blank to use the default prompt. You can customize the AI
-            behavior for this repository.
+            behavior for this repository and use these variables:{' '}
+            {PROMPT_VARIABLES.map((v) => (
+              <code key={v} className="mr-1">{`{{${v}}}`}</code>
+            ))}
           </p>
           <textarea
             value={customPrompt}
             onChange={(e) => setCustomPrompt(e.target.value)}
-            placeholder="You are a senior software engineer providing a code review..."
+            placeholder="You are a senior software engineer reviewing {{repo}}, written in {{languages}}..."
             rows={8}
             className="w-full rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
           />
+
+          {promptVersions.length > 0 && (
+            <details className="mt-3">
+              <summary className="cursor-pointer text-sm text-gray-300">
+                Prompt history ({promptVersions.length} version{promptVersions.length === 1 ? '' : 's'})
+              </summary>
+              <div className="mt-2 space-y-2">
+                {promptVersions.map((promptVersion) => (
+                  <div key={promptVersion.id} className="rounded-lg bg-gray-700 p-3">
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>
+                        <span className="font-semibold text-gray-200">v{promptVersion.version}</span>
+                        {promptVersion.restoredFrom !== null && ` (restored from v${promptVersion.restoredFrom})`}
+                        {' · '}
+                        {promptVersion.author?.name || promptVersion.author?.email || 'Unknown author'}
+                        {' · '}
+                        {new Date(promptVersion.createdAt).toLocaleString()}
+                      </span>
+                      {promptVersion.current ? (
+                        <span className="text-green-400">Current</span>
+                      ) : (
+                        <button
+                          onClick={() => handleRestorePrompt(promptVersion)}
+                          disabled={restoringId !== null}
+                          className="text-blue-400 hover:underline disabled:text-gray-500"
+                        >
+                          {restoringId === promptVersion.id ? 'Restoring...' : 'Roll back to this version'}
+                        </button>
+                      )}
+                    </div>
+                    <p className="mt-2 max-h-32 overflow-y-auto whitespace-pre-wrap font-mono text-xs text-gray-300">
+                      {promptVersion.template || <em>Default prompt</em>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
         </div>
 
         {/* Default Prompt Info */}
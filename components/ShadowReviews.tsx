@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ShadowComment {
+  comment: { file: string; line: number };
+  body: string;
+}
+
+interface ShadowReview {
+  id: number;
+  prNumber: number;
+  headSha: string;
+  summary: string | null;
+  comments: ShadowComment[];
+  fallbackReviews: string[];
+  walkthrough: string | null;
+  promotedAt: string | null;
+  url: string;
+  createdAt: string;
+}
+
+interface Props {
+  repositoryId: number;
+}
+
+export default function ShadowReviews({ repositoryId }: Props) {
+  const [prNumber, setPrNumber] = useState('');
+  const [reviews, setReviews] = useState<ShadowReview[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [promotingId, setPromotingId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const handleLoad = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const query = prNumber ? `?prNumber=${encodeURIComponent(prNumber)}` : '';
+      const response = await fetch(`/api/repositories/${repositoryId}/shadow-reviews${query}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to load shadow reviews');
+      }
+
+      setReviews(await response.json());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load shadow reviews');
+      setReviews(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePromote = async (review: ShadowReview) => {
+    try {
+      setPromotingId(review.id);
+      setError('');
+
+      const response = await fetch(
+        `/api/repositories/${repositoryId}/shadow-reviews/${review.id}/promote`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to post review');
+      }
+
+      const promoted = await response.json();
+      setReviews((current) =>
+        (current || []).map((r) => (r.id === review.id ? { ...r, promotedAt: promoted.promotedAt } : r))
+      );
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to post review');
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 rounded-lg bg-gray-800 p-6">
+      <h2 className="mb-2 text-lg font-semibold text-white">Shadow Reviews</h2>
+      <p className="mb-4 text-sm text-gray-400">
+        Reviews stored in shadow mode. Leave the PR number empty to list every PR.
+      </p>
+
+      <div className="mb-4 flex gap-4">
+        <input
+          type="number"
+          min={1}
+          value={prNumber}
+          onChange={(e) => setPrNumber(e.target.value)}
+          placeholder="PR number"
+          className="flex-1 rounded-lg bg-gray-700 px-4 py-3 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+        <button
+          onClick={handleLoad}
+          disabled={loading}
+          className="rounded-lg bg-blue-600 px-4 py-3 font-semibold text-white hover:bg-blue-700 disabled:bg-gray-600 transition"
+        >
+          {loading ? 'Loading...' : 'Show Reviews'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-red-900 p-4 text-red-200">{error}</div>
+      )}
+
+      {reviews && reviews.length === 0 && (
+        <p className="text-sm text-gray-400">No shadow reviews stored.</p>
+      )}
+
+      {reviews && reviews.length > 0 && (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <div key={review.id} className="rounded-lg bg-gray-700 p-4">
+              <div className="mb-3 flex items-center justify-between text-xs text-gray-400">
+                <span>
+                  <a
+                    href={review.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-400 hover:underline"
+                  >
+                    PR #{review.prNumber}
+                  </a>{' '}
+                  at <span className="font-mono">{review.headSha.substring(0, 7)}</span> ·{' '}
+                  {new Date(review.createdAt).toLocaleString()}
+                </span>
+                {review.promotedAt ? (
+                  <span className="text-green-400">
+                    Posted {new Date(review.promotedAt).toLocaleString()}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handlePromote(review)}
+                    disabled={promotingId !== null}
+                    className="rounded-lg bg-blue-600 px-3 py-2 font-semibold text-white hover:bg-blue-700 disabled:bg-gray-600 transition"
+                  >
+                    {promotingId === review.id ? 'Posting...' : 'Post to GitHub'}
+                  </button>
+                )}
+              </div>
+
+              {review.summary ? (
+                <p className="whitespace-pre-wrap text-sm text-gray-200">{review.summary}</p>
+              ) : (
+                <p className="text-sm text-gray-400">No new findings.</p>
+              )}
+
+              {review.comments.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {review.comments.map((c, index) => (
+                    <div key={index} className="rounded bg-gray-800 p-3">
+                      <p className="mb-1 font-mono text-xs text-gray-400">
+                        {c.comment.file}:{c.comment.line}
+                      </p>
+                      <p className="whitespace-pre-wrap text-sm text-gray-200">{c.body}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {review.fallbackReviews.map((body, index) => (
+                <p key={index} className="mt-3 whitespace-pre-wrap rounded bg-gray-800 p-3 text-sm text-gray-200">
+                  {body}
+                </p>
+              ))}
+
+              {review.walkthrough && (
+                <details className="mt-3">
+                  <summary className="cursor-pointer text-sm text-gray-300">Walkthrough</summary>
+                  <p className="mt-2 whitespace-pre-wrap text-sm text-gray-200">{review.walkthrough}</p>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
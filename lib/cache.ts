@@ -1,13 +1,5 @@
-import crypto from 'crypto';
 import { prisma } from './prisma';
 
-/**
- * Calculate SHA-256 hash of file content
- */
-export function hashFileContent(content: string): string {
-  return crypto.createHash('sha256').update(content).digest('hex');
-}
-
 /**
  * Get cached review for a file by content hash
  * Returns the cached review comment or null if not found
@@ -0,0 +1,192 @@
+/**
+ * GitHub Check Runs for reviews
+ * Each review creates an in-progress check run on the head commit and completes
+ * it with one annotation per finding, so results show in the Checks tab and can
+ * gate merges through branch protection. The conclusion follows the
+ * repository's policy (e.g. fail when any blocker is found)
+ *
+ * Check runs require GitHub App credentials; with other tokens the API refuses
+ * and the review continues with comments only
+ */
+
+import axios from 'axios';
+import type { LineComment } from './pr-reviewer';
+import { SEVERITIES, SEVERITY_BADGES, CATEGORY_LABELS, Severity, countBySeverity, formatSeverityCounts } from './findings';
+
+export const CHECK_RUN_NAME = 'ReviewBuddy';
+
+export const CHECK_CONCLUSION_POLICIES = ['never_fail', 'fail_on_blocker', 'fail_on_major'] as const;
+export type CheckConclusionPolicy = (typeof CHECK_CONCLUSION_POLICIES)[number];
+
+export const DEFAULT_CHECK_CONCLUSION_POLICY: CheckConclusionPolicy = 'never_fail';
+
+// GitHub accepts at most 50 annotations per request; more are sent in follow-up updates
+const ANNOTATIONS_PER_REQUEST = 50;
+
+const ANNOTATION_LEVELS: Record<Severity, 'failure' | 'warning' | 'notice'> = {
+  blocker: 'failure',
+  major: 'warning',
+  minor: 'notice',
+  nit: 'notice',
+};
+
+// Least severe finding that fails the check under each policy
+const FAILING_SEVERITY: Record<CheckConclusionPolicy, Severity | null> = {
+  never_fail: null,
+  fail_on_blocker: 'blocker',
+  fail_on_major: 'major',
+};
+
+export function isCheckConclusionPolicy(value: unknown): value is CheckConclusionPolicy {
+  return typeof value === 'string' && (CHECK_CONCLUSION_POLICIES as readonly string[]).includes(value);
+}
+
+function checkRunHeaders(token: string) {
+  return {
+    Authorization: `token ${token}`,
+    Accept: 'application/vnd.github+json',
+  };
+}
+
+/**
+ * Start an in-progress check run on a commit
+ * Returns its ID, or null if check runs aren't available for this token
+ */
+export async function startCheckRun(
+  repositoryUrl: string,
+  headSha: string,
+  token: string
+): Promise<number | null> {
+  try {
+    const response = await axios.post(
+      `${repositoryUrl}/check-runs`,
+      {
+        name: CHECK_RUN_NAME,
+        head_sha: headSha,
+        status: 'in_progress',
+        started_at: new Date().toISOString(),
+      },
+      { headers: checkRunHeaders(token) }
+    );
+    console.log(`[CHECKS] Started check run ${response.data.id} on ${headSha.substring(0, 7)}`);
+    return response.data.id;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : null;
+    console.warn(`[CHECKS] Could not create check run (${status ?? 'network error'}), continuing without it`);
+    return null;
+  }
+}
+
+/**
+ * Decide the check conclusion for a set of findings under a policy
+ */
+export function getCheckConclusion(
+  findings: LineComment[],
+  policy: CheckConclusionPolicy
+): 'success' | 'failure' {
+  const threshold = FAILING_SEVERITY[policy];
+  if (!threshold) {
+    return 'success';
+  }
+
+  const counts = countBySeverity(findings);
+  const failing = SEVERITIES.slice(0, SEVERITIES.indexOf(threshold) + 1);
+  return failing.some((severity) => counts[severity] > 0) ? 'failure' : 'success';
+}
+
+/**
+ * Map a finding to a check run annotation
+ */
+function toAnnotation(finding: LineComment) {
+  return {
+    path: finding.file,
+    start_line: finding.startLine ?? finding.line,
+    end_line: finding.line,
+    annotation_level: ANNOTATION_LEVELS[finding.severity],
+    title: `${SEVERITY_BADGES[finding.severity]} · ${CATEGORY_LABELS[finding.category]}${
+      finding.rule ? ` · Rule ${finding.rule}` : ''
+    }`,
+    message: finding.comment,
+    ...(finding.rationale ? { raw_details: finding.rationale } : {}),
+  };
+}
+
+/**
+ * Complete a check run with the open findings on the PR as annotations
+ * (the review's own and those still open from earlier reviews)
+ */
+export async function completeCheckRun(
+  repositoryUrl: string,
+  checkRunId: number,
+  findings: LineComment[],
+  policy: CheckConclusionPolicy,
+  summary: string,
+  token: string
+): Promise<void> {
+  const conclusion = getCheckConclusion(findings, policy);
+  const title =
+    findings.length > 0 ? `${findings.length} finding(s): ${formatSeverityCounts(findings)}` : 'No issues found';
+  const annotations = findings.map(toAnnotation);
+  const url = `${repositoryUrl}/check-runs/${checkRunId}`;
+
+  try {
+    await axios.patch(
+      url,
+      {
+        status: 'completed',
+        conclusion,
+        completed_at: new Date().toISOString(),
+        output: { title, summary, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) },
+      },
+      { headers: checkRunHeaders(token) }
+    );
+
+    // Later updates append their annotations to the ones already on the run
+    for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+      await axios.patch(
+        url,
+        { output: { title, summary, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) } },
+        { headers: checkRunHeaders(token) }
+      );
+    }
+
+    console.log(`[CHECKS] Completed check run ${checkRunId}: ${conclusion} (${annotations.length} annotation(s), policy ${policy})`);
+  } catch (error) {
+    // A rejected annotation fails the whole update; complete the run without them so it isn't left in progress
+    console.error(`[CHECKS] Failed to complete check run ${checkRunId} with annotations, retrying without:`, error);
+    try {
+      await axios.patch(
+        url,
+        { status: 'completed', conclusion, completed_at: new Date().toISOString(), output: { title, summary } },
+        { headers: checkRunHeaders(token) }
+      );
+    } catch (retryError) {
+      console.error(`[CHECKS] Failed to complete check run ${checkRunId}:`, retryError);
+    }
+  }
+}
+
+/**
+ * Close a check run whose review failed, without blocking the PR
+ */
+export async function abortCheckRun(
+  repositoryUrl: string,
+  checkRunId: number,
+  errorMessage: string,
+  token: string
+): Promise<void> {
+  try {
+    await axios.patch(
+      `${repositoryUrl}/check-runs/${checkRunId}`,
+      {
+        status: 'completed',
+        conclusion: 'neutral',
+        completed_at: new Date().toISOString(),
+        output: { title: 'Review failed', summary: `The AI review could not be completed: ${errorMessage}` },
+      },
+      { headers: checkRunHeaders(token) }
+    );
+  } catch (error) {
+    console.error(`[CHECKS] Failed to close check run ${checkRunId}:`, error);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Token-budgeted chunking of PR diffs
+ * Packs file diffs into chunks that fit the model's context window; files
+ * larger than the budget are split at hunk boundaries
+ */
+
+import type { DiffFile } from './pr-reviewer';
+
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 24000;
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+export interface DiffChunk {
+  files: DiffFile[]; // A split file appears as several parts sharing the same path
+  diff: string;
+  tokens: number;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split a file diff into parts at hunk ("@@") boundaries, repeating the file
+ * header on each part so every part is a valid diff on its own
+ */
+function splitFileAtHunks(file: DiffFile, maxTokens: number): DiffFile[] {
+  const firstHunk = file.lines.findIndex((line) => line.startsWith('@@'));
+  if (firstHunk === -1) {
+    return [file];
+  }
+
+  const header = file.lines.slice(0, firstHunk);
+  const hunks: string[][] = [];
+  for (const line of file.lines.slice(firstHunk)) {
+    if (line.startsWith('@@') || hunks.length === 0) {
+      hunks.push([]);
+    }
+    hunks[hunks.length - 1].push(line);
+  }
+
+  const headerTokens = estimateTokens(header.join('\n'));
+  const parts: DiffFile[] = [];
+  let current: string[] = [];
+  let currentTokens = headerTokens;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const lines = [...header, ...current];
+    parts.push({ ...file, fullDiff: lines.join('\n'), lines });
+    current = [];
+    currentTokens = headerTokens;
+  };
+
+  for (const hunk of hunks) {
+    const hunkTokens = estimateTokens(hunk.join('\n'));
+    // A single oversized hunk still gets its own part rather than being cut mid-hunk
+    if (current.length > 0 && currentTokens + hunkTokens > maxTokens) {
+      flush();
+    }
+    current.push(...hunk);
+    currentTokens += hunkTokens;
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * Pack files into chunks under the token budget, preserving file order
+ */
+export function chunkDiffFiles(
+  files: DiffFile[],
+  maxTokens: number = DEFAULT_CHUNK_TOKEN_BUDGET
+): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  let current: DiffFile[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      files: current,
+      diff: current.map((f) => f.fullDiff).join('\n'),
+      tokens: currentTokens,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const file of files) {
+    const fileTokens = estimateTokens(file.fullDiff);
+    const parts = fileTokens > maxTokens ? splitFileAtHunks(file, maxTokens) : [file];
+
+    for (const part of parts) {
+      const partTokens = parts.length === 1 ? fileTokens : estimateTokens(part.fullDiff);
+      if (current.length > 0 && currentTokens + partTokens > maxTokens) {
+        flush();
+      }
+      current.push(part);
+      currentTokens += partTokens;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,426 @@
+/**
+ * Surrounding-code context for review prompts
+ * A unified diff only carries three lines of context, so the model often flags
+ * names declared just outside a hunk. This module fetches changed files at the
+ * head SHA and extracts the enclosing functions/classes, import blocks and the
+ * exported signatures of imported local modules, packed under a token budget
+ */
+
+import axios from 'axios';
+import { posix } from 'path';
+import type { DiffFile } from './pr-reviewer';
+import { estimateTokens, mapWithConcurrency } from './chunker';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+
+// Limits that keep the number of GitHub API calls per review bounded
+const FETCH_CONCURRENCY = 4;
+const MAX_IMPORTED_MODULES = 10;
+
+// Enclosing blocks longer than this are trimmed to a window around the hunk
+const MAX_ENCLOSING_LINES = 150;
+const HUNK_WINDOW_LINES = 20;
+
+const IMPORT_SCAN_LINES = 100;
+
+const DECLARATION_PATTERN =
+  /^\s*(export\s+)?(default\s+)?(abstract\s+)?(async\s+)?(function\b|class\b|interface\b|enum\b|def\b|func\b|fn\b|pub(\(\w+\))?\s+(async\s+)?fn\b|impl\b|struct\b|trait\b|module\b|namespace\b|(const|let|var)\s+\w+\s*=\s*(async\s+)?(\([^)]*\)|\w+)\s*=>)/;
+const METHOD_PATTERN =
+  /^\s+(?!(if|for|while|switch|catch|return|else)\b)(public\s+|private\s+|protected\s+|static\s+|async\s+|get\s+|set\s+)*[A-Za-z_$][\w$]*\s*\([^)]*\)\s*(:\s*[^={]+)?\{\s*$/;
+const IMPORT_LINE_PATTERN = /^\s*(import\b|from\s+\S+\s+import\b|export\s+.*\bfrom\b|(const|let|var)\s+.*=\s*require\(|use\s|#include\b|require\s)/;
+const JS_IMPORT_PATTERNS = [
+  /\bfrom\s+['"](\.{1,2}\/[^'"]+)['"]/g,
+  /\bimport\s+['"](\.{1,2}\/[^'"]+)['"]/g,
+  /\brequire\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)/g,
+];
+const PY_RELATIVE_IMPORT_PATTERN = /^\s*from\s+(\.+)([\w.]*)\s+import\b/gm;
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+export interface ReviewContextSources {
+  files: Map<string, string>; // Path -> contents at the head SHA (changed files and imported modules)
+  imports: Map<string, string[]>; // Changed file path -> imported local module paths
+}
+
+interface LineRange {
+  start: number; // 1-based, inclusive
+  end: number;
+}
+
+interface ContextSection {
+  title: string;
+  path: string;
+  lines: Array<{ number: number; text: string }>;
+}
+
+/**
+ * Fetch a file's raw contents at a ref, or null if it can't be read
+ */
+async function fetchFileAtRef(
+  repositoryUrl: string,
+  path: string,
+  ref: string,
+  token: string
+): Promise<string | null> {
+  try {
+    const response = await axios.get(`${repositoryUrl}/contents/${path.split('/').map(encodeURIComponent).join('/')}`, {
+      params: { ref },
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.raw+json',
+      },
+      responseType: 'text',
+    });
+    return typeof response.data === 'string' ? response.data : null;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : null;
+    console.warn(`[CONTEXT] Could not fetch ${path} at ${ref.substring(0, 7)} (${status ?? 'network error'})`);
+    return null;
+  }
+}
+
+/**
+ * List every file path in the repository at a ref, used to resolve imports locally
+ */
+async function fetchRepoPaths(repositoryUrl: string, ref: string, token: string): Promise<Set<string>> {
+  try {
+    const response = await axios.get(`${repositoryUrl}/git/trees/${ref}`, {
+      params: { recursive: 1 },
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+    const entries = response.data.tree as Array<{ path: string; type: string }>;
+    return new Set(entries.filter((e) => e.type === 'blob').map((e) => e.path));
+  } catch (error) {
+    console.warn('[CONTEXT] Could not list repository files, skipping imported modules:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Whether a file diff deletes the file (nothing to fetch at the head SHA)
+ */
+function isDeletedFile(file: DiffFile): boolean {
+  return file.lines.some((line) => line === '+++ /dev/null' || line.startsWith('deleted file mode'));
+}
+
+/**
+ * Resolve the relative imports of a source file to paths in the repository
+ */
+function resolveLocalImports(path: string, source: string, repoPaths: Set<string>): string[] {
+  const dir = posix.dirname(path);
+  const candidates: string[][] = [];
+
+  if (/\.py$/.test(path)) {
+    for (const match of source.matchAll(PY_RELATIVE_IMPORT_PATTERN)) {
+      const up = match[1].length - 1;
+      const base = posix.join(dir, ...Array(up).fill('..'), ...match[2].split('.').filter(Boolean));
+      candidates.push([`${base}.py`, `${base}/__init__.py`]);
+    }
+  } else {
+    for (const pattern of JS_IMPORT_PATTERNS) {
+      for (const match of source.matchAll(pattern)) {
+        const base = posix.join(dir, match[1]);
+        // TypeScript ESM imports name the compiled ".js" file
+        const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+        candidates.push([
+          base,
+          ...JS_EXTENSIONS.map((ext) => `${stem}${ext}`),
+          ...JS_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+        ]);
+      }
+    }
+  }
+
+  const resolved = new Set<string>();
+  for (const options of candidates) {
+    const found = options.find((candidate) => repoPaths.has(candidate));
+    if (found && found !== path) {
+      resolved.add(found);
+    }
+  }
+  return [...resolved];
+}
+
+/**
+ * Fetch changed files and the local modules they import at the head SHA
+ */
+export async function loadReviewContext(
+  files: DiffFile[],
+  repositoryUrl: string,
+  ref: string,
+  token: string
+): Promise<ReviewContextSources> {
+  const sources: ReviewContextSources = { files: new Map(), imports: new Map() };
+  const paths = [...new Set(files.filter((f) => !isDeletedFile(f)).map((f) => f.path))];
+
+  const contents = await mapWithConcurrency(paths, FETCH_CONCURRENCY, (path) =>
+    fetchFileAtRef(repositoryUrl, path, ref, token)
+  );
+  paths.forEach((path, index) => {
+    const content = contents[index];
+    if (content !== null) {
+      sources.files.set(path, content);
+    }
+  });
+
+  if (sources.files.size === 0) {
+    return sources;
+  }
+
+  const repoPaths = await fetchRepoPaths(repositoryUrl, ref, token);
+  const modules = new Set<string>();
+  for (const [path, source] of sources.files) {
+    const imported = resolveLocalImports(path, source, repoPaths);
+    sources.imports.set(path, imported);
+    imported.filter((p) => !sources.files.has(p)).forEach((p) => modules.add(p));
+  }
+
+  const modulePaths = [...modules].slice(0, MAX_IMPORTED_MODULES);
+  const moduleContents = await mapWithConcurrency(modulePaths, FETCH_CONCURRENCY, (path) =>
+    fetchFileAtRef(repositoryUrl, path, ref, token)
+  );
+  modulePaths.forEach((path, index) => {
+    const content = moduleContents[index];
+    if (content !== null) {
+      sources.files.set(path, content);
+    }
+  });
+
+  console.log(
+    `[CONTEXT] Loaded ${paths.length} changed file(s) and ${modulePaths.length} imported module(s) at ${ref.substring(0, 7)}`
+  );
+
+  return sources;
+}
+
+/**
+ * New-file line ranges covered by a file diff's hunks, and the lines it adds
+ */
+function getHunkRanges(file: DiffFile): { hunks: LineRange[]; added: Set<number> } {
+  const hunks: LineRange[] = [];
+  const added = new Set<number>();
+  let line = 0;
+
+  for (const diffLine of file.lines) {
+    const header = diffLine.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      const start = parseInt(header[1], 10);
+      const length = header[2] === undefined ? 1 : parseInt(header[2], 10);
+      hunks.push({ start, end: start + Math.max(length, 1) - 1 });
+      line = start;
+      continue;
+    }
+    if (hunks.length === 0 || diffLine.startsWith('\\')) {
+      continue;
+    }
+    if (diffLine.startsWith('+')) {
+      added.add(line++);
+    } else if (!diffLine.startsWith('-')) {
+      line++;
+    }
+  }
+
+  return { hunks, added };
+}
+
+function indentOf(text: string): number {
+  return text.match(/^\s*/)?.[0].length ?? 0;
+}
+
+/**
+ * Find the function/class enclosing a hunk, using declaration patterns and indentation
+ * Falls back to a window around the hunk when no declaration is found or the block is huge
+ */
+function findEnclosingRange(sourceLines: string[], hunk: LineRange): LineRange {
+  const hunkStart = Math.min(hunk.start, sourceLines.length);
+  const hunkEnd = Math.min(hunk.end, sourceLines.length);
+  const window = {
+    start: Math.max(1, hunkStart - HUNK_WINDOW_LINES),
+    end: Math.min(sourceLines.length, hunkEnd + HUNK_WINDOW_LINES),
+  };
+
+  const firstCode = sourceLines.slice(hunkStart - 1, hunkEnd).find((l) => l.trim() !== '');
+  let maxIndent = firstCode !== undefined ? indentOf(firstCode) : Infinity;
+
+  let declaration = -1;
+  for (let ln = hunkStart; ln >= 1; ln--) {
+    const text = sourceLines[ln - 1];
+    if (text.trim() === '') continue;
+    const indent = indentOf(text);
+    if (indent <= maxIndent && (DECLARATION_PATTERN.test(text) || METHOD_PATTERN.test(text))) {
+      declaration = ln;
+      break;
+    }
+    maxIndent = Math.min(maxIndent, indent);
+  }
+
+  if (declaration === -1) {
+    return window;
+  }
+
+  const declIndent = indentOf(sourceLines[declaration - 1]);
+  let end = sourceLines.length;
+  for (let ln = Math.max(hunkEnd, declaration) + 1; ln <= sourceLines.length; ln++) {
+    const text = sourceLines[ln - 1];
+    if (text.trim() === '' || indentOf(text) > declIndent) continue;
+    // The closing bracket of a braced block belongs to the block
+    end = /^\s*[)}\]]|^\s*end\b/.test(text) ? ln : ln - 1;
+    break;
+  }
+
+  if (end - declaration + 1 > MAX_ENCLOSING_LINES) {
+    return { start: Math.min(declaration, window.start), end: window.end };
+  }
+  return { start: declaration, end: Math.max(end, hunkEnd) };
+}
+
+/**
+ * Merge overlapping or adjacent ranges
+ */
+function mergeRanges(ranges: LineRange[]): LineRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: LineRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function sliceLines(sourceLines: string[], range: LineRange): Array<{ number: number; text: string }> {
+  const lines = [];
+  for (let ln = range.start; ln <= range.end && ln <= sourceLines.length; ln++) {
+    lines.push({ number: ln, text: sourceLines[ln - 1] });
+  }
+  return lines;
+}
+
+/**
+ * Import statements near the top of a file
+ */
+function extractImportLines(sourceLines: string[]): Array<{ number: number; text: string }> {
+  return sourceLines
+    .slice(0, IMPORT_SCAN_LINES)
+    .map((text, index) => ({ number: index + 1, text }))
+    .filter((line) => IMPORT_LINE_PATTERN.test(line.text));
+}
+
+/**
+ * Top-level exported/declared signatures of an imported module
+ */
+function extractSignatureLines(path: string, sourceLines: string[]): Array<{ number: number; text: string }> {
+  const pattern = /\.py$/.test(path) ? /^(async\s+)?(def|class)\s/ : /^export\s/;
+  return sourceLines
+    .map((text, index) => ({ number: index + 1, text }))
+    .filter((line) => pattern.test(line.text));
+}
+
+/**
+ * Render a section with line numbers; lines added by the PR are marked with ">"
+ */
+function renderSection(section: ContextSection, added: Set<number> = new Set()): string {
+  const width = String(section.lines[section.lines.length - 1]?.number ?? 0).length;
+  const body = section.lines
+    .map((line, index) => {
+      const gap = index > 0 && line.number !== section.lines[index - 1].number + 1 ? '     ...\n' : '';
+      const marker = added.has(line.number) ? '>' : ' ';
+      return `${gap}${String(line.number).padStart(width)} ${marker}| ${line.text}`;
+    })
+    .join('\n');
+  return `#### ${section.title}: ${section.path}\n\`\`\`\n${body}\n\`\`\``;
+}
+
+/**
+ * Build the context for one chunk of the diff, packed under the token budget
+ * Enclosing code is added first (file order), then import blocks, then the
+ * signatures of imported local modules; sections that don't fit are skipped
+ */
+export function buildChunkContext(
+  chunkFiles: DiffFile[],
+  sources: ReviewContextSources,
+  maxTokens: number = DEFAULT_CONTEXT_TOKEN_BUDGET
+): string {
+  if (maxTokens <= 0) {
+    return '';
+  }
+
+  // A file split across chunk parts contributes the hunks of every part in this chunk
+  const byPath = new Map<string, { hunks: LineRange[]; added: Set<number> }>();
+  for (const file of chunkFiles) {
+    if (!sources.files.has(file.path)) continue;
+    const { hunks, added } = getHunkRanges(file);
+    const entry = byPath.get(file.path) || { hunks: [], added: new Set<number>() };
+    entry.hunks.push(...hunks);
+    added.forEach((ln) => entry.added.add(ln));
+    byPath.set(file.path, entry);
+  }
+
+  const enclosing: string[] = [];
+  const importBlocks: string[] = [];
+  const modulePaths = new Set<string>();
+
+  for (const [path, { hunks, added }] of byPath) {
+    const sourceLines = (sources.files.get(path) as string).split('\n');
+    const ranges = mergeRanges(hunks.map((hunk) => findEnclosingRange(sourceLines, hunk)));
+    const lines = ranges.flatMap((range) => sliceLines(sourceLines, range));
+    if (lines.length > 0) {
+      enclosing.push(renderSection({ title: 'Enclosing code', path, lines }, added));
+    }
+
+    const imports = extractImportLines(sourceLines).filter(
+      (line) => !ranges.some((r) => line.number >= r.start && line.number <= r.end)
+    );
+    if (imports.length > 0) {
+      importBlocks.push(renderSection({ title: 'Imports', path, lines: imports }, added));
+    }
+
+    (sources.imports.get(path) || []).forEach((p) => modulePaths.add(p));
+  }
+
+  const moduleSignatures: string[] = [];
+  for (const path of modulePaths) {
+    const source = sources.files.get(path);
+    if (!source || byPath.has(path)) continue;
+    const lines = extractSignatureLines(path, source.split('\n'));
+    if (lines.length > 0) {
+      moduleSignatures.push(renderSection({ title: 'Imported module signatures', path, lines }));
+    }
+  }
+
+  const sections = [...enclosing, ...importBlocks, ...moduleSignatures];
+  const selected: string[] = [];
+  let tokens = 0;
+  for (const text of sections) {
+    const sectionTokens = estimateTokens(text);
+    if (tokens + sectionTokens > maxTokens) continue;
+    selected.push(text);
+    tokens += sectionTokens;
+  }
+
+  if (selected.length < sections.length) {
+    console.log(`[CONTEXT] Context budget reached, kept ${selected.length}/${sections.length} section(s)`);
+  }
+
+  return selected.join('\n\n');
+}
+
+/**
+ * Wrap chunk context in prompt instructions that separate it from the diff under review
+ */
+export function formatContextForPrompt(context: string): string {
+  if (!context) {
+    return '';
+  }
+
+  return `Surrounding code at the PR's head commit, for REFERENCE ONLY. It is not under review: do not report findings on it, use it to understand declarations, imports and callers. Each line shows its line number in the new file; lines added by this PR are marked with ">" and are reviewed through the diff below.
+
+${context}
+
+`;
+}
@@ -0,0 +1,297 @@
+/**
+ * Conversational follow-ups
+ * Answers PR comments that mention the bot: review comment threads get a reply
+ * in the same thread using the original finding and its diff hunk, PR
+ * conversation comments get a reply in the conversation
+ *
+ * Loop protection: the bot never answers comments it wrote itself, comments
+ * from other bots, or anything carrying a ReviewBuddy marker. Repositories in
+ * shadow mode get no replies
+ */
+
+import axios from 'axios';
+import { prisma } from './prisma';
+import { getProvider } from './llm';
+import { loadEffectiveConfig } from './repo-config';
+import { findPostedComment } from './posted-comments';
+import { renderPromptTemplate } from './prompt-templates';
+import { redactPrompt } from './secret-scanner';
+import { getInstallationToken } from './pr-reviewer';
+
+export const REPLY_MARKER = '<!-- reviewbuddy:reply -->';
+
+// Any comment carrying one of our markers was written by the bot
+const BOT_MARKER_PREFIX = '<!-- reviewbuddy:';
+
+// Earlier messages included in the prompt
+const MAX_THREAD_MESSAGES = 20;
+
+// Pages of comments read at most, so a PR with thousands of comments can't stall a reply
+const COMMENTS_PER_PAGE = 100;
+const MAX_COMMENT_PAGES = 20;
+
+export interface GitHubUser {
+  login: string;
+  type?: string; // "User" | "Bot" | "Organization"
+}
+
+export interface GitHubComment {
+  id: number;
+  body: string;
+  user: GitHubUser;
+  path?: string;
+  line?: number | null;
+  diff_hunk?: string;
+  in_reply_to_id?: number;
+}
+
+interface PullRequestInfo {
+  number: number;
+  url: string;
+  title: string;
+  body: string | null;
+  base: { ref: string };
+}
+
+export interface CommentEventPayload {
+  action: string;
+  comment: GitHubComment;
+  repository: { id: number; url: string; full_name: string };
+  pull_request?: PullRequestInfo; // pull_request_review_comment
+  issue?: {
+    number: number;
+    comments_url: string;
+    pull_request?: { url: string }; // Only set when the issue is a PR
+  };
+}
+
+export interface FollowUpResult {
+  status: string;
+  replied: boolean;
+}
+
+let cachedBotLogin: string | null = null;
+
+/**
+ * Login the bot posts as, from GITHUB_BOT_LOGIN or the token's user
+ */
+export async function getBotLogin(token: string): Promise<string> {
+  if (process.env.GITHUB_BOT_LOGIN) {
+    return process.env.GITHUB_BOT_LOGIN;
+  }
+  if (!cachedBotLogin) {
+    const response = await axios.get('https://api.github.com/user', {
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+    cachedBotLogin = response.data.login as string;
+  }
+  return cachedBotLogin;
+}
+
+/**
+ * Whether a comment was written by this bot or another bot
+ */
+export function isBotComment(comment: GitHubComment, botLogin: string): boolean {
+  return (
+    comment.user.login.toLowerCase() === botLogin.toLowerCase() ||
+    comment.user.type === 'Bot' ||
+    comment.body.includes(BOT_MARKER_PREFIX)
+  );
+}
+
+/**
+ * Whether a comment body mentions the bot (e.g. "@reviewbuddy why?")
+ */
+export function mentionsBot(body: string, botLogin: string): boolean {
+  const escaped = botLogin.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w-])@${escaped}(?![\\w-])`, 'i').test(body);
+}
+
+/**
+ * Render a thread as a transcript for the prompt
+ */
+function formatThread(comments: GitHubComment[], botLogin: string): string {
+  return comments
+    .slice(-MAX_THREAD_MESSAGES)
+    .map((c) => {
+      const author = isBotComment(c, botLogin) ? 'ReviewBuddy (you)' : `@${c.user.login}`;
+      return `${author}:\n${c.body.replace(/<!--[\s\S]*?-->/g, '').trim()}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+function buildFollowUpPrompt(
+  pullRequest: PullRequestInfo,
+  thread: string,
+  question: GitHubComment,
+  finding: string | null,
+  diffHunk: string | null,
+  customPrompt: string | null
+): string {
+  const sections = [
+    customPrompt,
+    `You are ReviewBuddy, an AI code reviewer, replying to a developer in a pull request discussion.
+Answer the latest message directly and concisely in Markdown. If the developer is right that a finding is wrong, say so plainly.
+Explain your reasoning with reference to the code. Don't repeat the whole finding back.`,
+    `Pull request: ${pullRequest.title}\n${pullRequest.body?.trim() || ''}`.trim(),
+    finding ? `Your original finding:\n${finding}` : null,
+    diffHunk ? `Diff hunk for ${question.path}${question.line ? ` (line ${question.line})` : ''}:\n\`\`\`diff\n${diffHunk}\n\`\`\`` : null,
+    thread ? `Conversation so far:\n\n${thread}` : null,
+    `Latest message from @${question.user.login}:\n${question.body}`,
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Fetch all pages of a GitHub comment list
+ */
+async function fetchAllComments(
+  url: string,
+  headers: Record<string, string>,
+  params: Record<string, string> = {}
+): Promise<GitHubComment[]> {
+  const comments: GitHubComment[] = [];
+  for (let page = 1; page <= MAX_COMMENT_PAGES; page++) {
+    const response = await axios.get(url, { headers, params: { ...params, per_page: COMMENTS_PER_PAGE, page } });
+    const pageComments = response.data as GitHubComment[];
+    comments.push(...pageComments);
+    if (pageComments.length < COMMENTS_PER_PAGE) {
+      break;
+    }
+  }
+  return comments;
+}
+
+/**
+ * Fetch the review comments in the thread a comment belongs to, oldest first
+ */
+async function fetchReviewThread(
+  pullRequestUrl: string,
+  rootId: number,
+  headers: Record<string, string>
+): Promise<GitHubComment[]> {
+  const comments = await fetchAllComments(`${pullRequestUrl}/comments`, headers, {
+    sort: 'created',
+    direction: 'asc',
+  });
+
+  return comments.filter(
+    (c) => c.id === rootId || c.in_reply_to_id === rootId
+  );
+}
+
+/**
+ * Handle an issue_comment or pull_request_review_comment event
+ * Returns a status describing why the comment was answered or ignored
+ */
+export async function handleCommentEvent(
+  eventType: string,
+  payload: CommentEventPayload
+): Promise<FollowUpResult> {
+  const { action, comment, repository } = payload;
+
+  if (action !== 'created') {
+    return { status: 'ignored_action', replied: false };
+  }
+  if (eventType === 'issue_comment' && !payload.issue?.pull_request) {
+    return { status: 'not_pull_request', replied: false };
+  }
+
+  const token = await getInstallationToken();
+  const botLogin = await getBotLogin(token);
+
+  if (isBotComment(comment, botLogin)) {
+    console.log(`[FOLLOW-UP] Ignoring comment ${comment.id} written by a bot`);
+    return { status: 'bot_comment', replied: false };
+  }
+  if (!mentionsBot(comment.body, botLogin)) {
+    return { status: 'no_mention', replied: false };
+  }
+
+  const dbRepository = await prisma.repository.findUnique({
+    where: { githubRepoId: repository.id },
+    include: { configuration: true },
+  });
+  if (!dbRepository) {
+    console.error(`[FOLLOW-UP] Repository ${repository.id} not found in database`);
+    return { status: 'repository_not_found', replied: false };
+  }
+
+  // Shadow mode keeps the bot silent on the PR, replies included
+  if (dbRepository.configuration?.shadowMode) {
+    console.log(`[FOLLOW-UP] Repository ${dbRepository.name} is in shadow mode, not replying`);
+    return { status: 'shadow_mode', replied: false };
+  }
+
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: 'application/vnd.github.v3+json',
+  };
+
+  const pullRequest: PullRequestInfo =
+    payload.pull_request ?? (await axios.get(payload.issue!.pull_request!.url, { headers })).data;
+
+  const { config } = await loadEffectiveConfig(
+    dbRepository.configuration,
+    repository.url,
+    pullRequest.base.ref,
+    token
+  );
+  if (!config.enabled) {
+    console.log(`[FOLLOW-UP] Reviewer disabled for repository ${dbRepository.name}`);
+    return { status: 'reviewer_disabled', replied: false };
+  }
+
+  let thread: GitHubComment[];
+  let finding: string | null = null;
+  let diffHunk: string | null = null;
+  let replyUrl: string;
+
+  if (eventType === 'pull_request_review_comment') {
+    // Replies always attach to the first comment of a review thread
+    const rootId = comment.in_reply_to_id ?? comment.id;
+    thread = await fetchReviewThread(pullRequest.url, rootId, headers);
+    const posted = await findPostedComment(dbRepository.id, rootId);
+    finding = posted?.body ?? null;
+    diffHunk = comment.diff_hunk ?? null;
+    replyUrl = `${pullRequest.url}/comments/${rootId}/replies`;
+  } else {
+    const commentsUrl = payload.issue!.comments_url;
+    thread = await fetchAllComments(commentsUrl, headers);
+    replyUrl = commentsUrl;
+  }
+
+  const earlier = thread.filter((c) => c.id !== comment.id);
+
+  // The diff isn't loaded for a reply, so {{languages}} and {{changed_files}} render empty
+  const customPrompt = config.customPrompt
+    ? renderPromptTemplate(config.customPrompt, {
+        repo: repository.full_name,
+        pr_title: pullRequest.title,
+        pr_description: pullRequest.body ?? '',
+        base_branch: pullRequest.base.ref,
+      })
+    : null;
+
+  const prompt = buildFollowUpPrompt(
+    pullRequest,
+    formatThread(earlier, botLogin),
+    comment,
+    finding,
+    diffHunk,
+    customPrompt
+  );
+
+  const provider = getProvider({ provider: config.llmProvider, model: config.llmModel });
+  console.log(`[FOLLOW-UP] Answering @${comment.user.login} on PR #${pullRequest.number} with ${provider.name}`);
+  const answer = await provider.generate(redactPrompt(prompt), { responseFormat: 'text' });
+
+  await axios.post(replyUrl, { body: `${answer.trim()}\n\n${REPLY_MARKER}` }, { headers });
+  console.log(`[FOLLOW-UP] Replied to comment ${comment.id}`);
+
+  return { status: 'replied', replied: true };
+}
@@ -0,0 +1,240 @@
+/**
+ * Repository-defined deterministic rules
+ * A rule is a regular expression run locally over the added lines of each file,
+ * optionally limited to paths and to the code or comment part of a line (so
+ * "console.log" in a comment or "TODO" in a string doesn't count). Rule-based
+ * findings replace AI findings of the same category on the same line
+ *
+ * Patterns use RE2 syntax and run in linear time, so a pattern like (a|aa)*$
+ * can't stall a review; lookarounds and backreferences aren't supported
+ *
+ *   - id: no-console-in-lib
+ *     pattern: console\.log\(
+ *     paths: [lib/**]
+ *     scope: code
+ *     message: Log through the request logger instead of console.log
+ *     severity: minor
+ */
+
+import picomatch from 'picomatch';
+import { RE2JS } from 're2js';
+import { getAddedLines } from './line-validator';
+import { detectFileLanguage } from './rule-packs';
+import { CATEGORIES, SEVERITIES, Category, Severity } from './findings';
+import type { DiffFile, LineComment } from './pr-reviewer';
+
+export const RULE_SCOPES = ['line', 'code', 'comment'] as const;
+export type RuleScope = (typeof RULE_SCOPES)[number];
+
+export interface CustomRule {
+  id: string;
+  pattern: string; // Regular expression matched against each added line
+  unless?: string; // Regular expression; lines matching it are allowed
+  paths?: string[]; // Globs; the rule applies to all files if empty
+  scope?: RuleScope; // Part of the line matched (default: the whole line)
+  message: string;
+  severity: Severity;
+  category?: Category; // Default: readability
+}
+
+export const MAX_CUSTOM_RULES = 50;
+const MAX_PATTERN_LENGTH = 500;
+// Longer lines (minified or generated code) are skipped so a rule can't stall a review
+const MAX_LINE_LENGTH = 2000;
+
+const RULE_KEYS = ['id', 'pattern', 'unless', 'paths', 'scope', 'message', 'severity', 'category'];
+
+// Comment syntax by rule pack language; other files use both "//" and "#"
+const COMMENT_STARTS: Record<string, string[]> = {
+  typescript: ['//', '/*'],
+  go: ['//', '/*'],
+  rust: ['//', '/*'],
+  java: ['//', '/*'],
+  python: ['#'],
+  ruby: ['#'],
+  shell: ['#'],
+  dockerfile: ['#'],
+  'github-actions': ['#'],
+  terraform: ['#', '//', '/*'],
+  sql: ['--', '/*'],
+};
+
+const matchOptions = { dot: true };
+
+/**
+ * Split a line into code and trailing comment, skipping comment markers inside strings
+ * Lines continuing a block comment (" * ...") are all comment
+ */
+function splitComment(content: string, commentStarts: string[]): { code: string; comment: string } {
+  if (/^\s*\*/.test(content) && commentStarts.includes('/*')) {
+    return { code: '', comment: content };
+  }
+
+  let quote: string | null = null;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      continue;
+    }
+    if (commentStarts.some((start) => content.startsWith(start, i))) {
+      return { code: content.substring(0, i), comment: content.substring(i) };
+    }
+  }
+
+  return { code: content, comment: '' };
+}
+
+function compileRegex(pattern: string): RE2JS | null {
+  try {
+    return RE2JS.compile(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run rules over the added lines of a file diff
+ * Returns at most one finding per rule per line
+ */
+export function runCustomRules(file: DiffFile, rules: CustomRule[]): LineComment[] {
+  const applicable = rules.filter(
+    (rule) => !rule.paths?.length || picomatch.isMatch(file.path, rule.paths, matchOptions)
+  );
+  if (applicable.length === 0) {
+    return [];
+  }
+
+  const language = detectFileLanguage(file);
+  const commentStarts = (language && COMMENT_STARTS[language]) || ['//', '#'];
+  const compiled = applicable.map((rule) => ({
+    rule,
+    pattern: compileRegex(rule.pattern),
+    unless: rule.unless ? compileRegex(rule.unless) : null,
+  }));
+
+  const findings: LineComment[] = [];
+  for (const { line, content } of getAddedLines(file)) {
+    if (content.length > MAX_LINE_LENGTH) {
+      continue;
+    }
+    const parts = splitComment(content, commentStarts);
+
+    for (const { rule, pattern, unless } of compiled) {
+      const text = rule.scope === 'code' ? parts.code : rule.scope === 'comment' ? parts.comment : content;
+      if (!pattern || !pattern.test(text) || unless?.test(text)) {
+        continue;
+      }
+      findings.push({
+        file: file.path,
+        line,
+        severity: rule.severity,
+        category: rule.category ?? 'readability',
+        comment: rule.message,
+        rule: rule.id,
+      });
+    }
+  }
+
+  if (findings.length > 0) {
+    console.log(`[RULES] ${findings.length} rule finding(s) in ${file.path}`);
+  }
+  return findings;
+}
+
+/**
+ * Drop AI findings that repeat a deterministic finding: same file, a range
+ * covering the same line and the same category
+ */
+export function dedupeAgainstRuleFindings(aiFindings: LineComment[], ruleFindings: LineComment[]): LineComment[] {
+  const kept = aiFindings.filter(
+    (finding) =>
+      !ruleFindings.some(
+        (ruleFinding) =>
+          ruleFinding.file === finding.file &&
+          ruleFinding.category === finding.category &&
+          ruleFinding.line >= (finding.startLine ?? finding.line) &&
+          ruleFinding.line <= finding.line
+      )
+  );
+
+  if (kept.length < aiFindings.length) {
+    console.log(`[RULES] Dropped ${aiFindings.length - kept.length} AI finding(s) already raised by a rule`);
+  }
+  return kept;
+}
+
+/**
+ * Check a list of custom rules
+ * Returns the problems; an empty array means the rules can be saved
+ */
+export function validateCustomRules(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['must be a list of rules'];
+  }
+  if (value.length > MAX_CUSTOM_RULES) {
+    return [`at most ${MAX_CUSTOM_RULES} rules are allowed`];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  value.forEach((item: unknown, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`rule ${index + 1} must be a mapping with "id", "pattern", "message" and "severity"`);
+      return;
+    }
+
+    const rule = item as Record<string, unknown>;
+    const label = typeof rule.id === 'string' && rule.id ? `rule "${rule.id}"` : `rule ${index + 1}`;
+
+    for (const key of Object.keys(rule)) {
+      if (!RULE_KEYS.includes(key)) {
+        errors.push(`${label}: unknown key "${key}"`);
+      }
+    }
+
+    if (typeof rule.id !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(rule.id)) {
+      errors.push(`${label}: "id" must be letters, digits, "-", "_" or "."`);
+    } else if (ids.has(rule.id)) {
+      errors.push(`${label}: the id is used twice`);
+    } else {
+      ids.add(rule.id);
+    }
+
+    for (const key of ['pattern', 'unless'] as const) {
+      if (key === 'unless' && rule.unless === undefined) continue;
+      const pattern = rule[key];
+      if (typeof pattern !== 'string' || pattern === '') {
+        errors.push(`${label}: "${key}" must be a non-empty regular expression`);
+      } else if (pattern.length > MAX_PATTERN_LENGTH) {
+        errors.push(`${label}: "${key}" must be at most ${MAX_PATTERN_LENGTH} characters`);
+      } else if (!compileRegex(pattern)) {
+        errors.push(`${label}: "${key}" is not a valid RE2 regular expression (lookarounds and backreferences aren't supported)`);
+      }
+    }
+
+    if (rule.paths !== undefined && (!Array.isArray(rule.paths) || rule.paths.some((p) => typeof p !== 'string'))) {
+      errors.push(`${label}: "paths" must be a list of glob strings`);
+    }
+    if (rule.scope !== undefined && !(RULE_SCOPES as readonly unknown[]).includes(rule.scope)) {
+      errors.push(`${label}: "scope" must be one of ${RULE_SCOPES.join(', ')}`);
+    }
+    if (typeof rule.message !== 'string' || rule.message.trim() === '') {
+      errors.push(`${label}: "message" must be a non-empty string`);
+    }
+    if (!(SEVERITIES as readonly unknown[]).includes(rule.severity)) {
+      errors.push(`${label}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (rule.category !== undefined && !(CATEGORIES as readonly unknown[]).includes(rule.category)) {
+      errors.push(`${label}: "category" must be one of ${CATEGORIES.join(', ')}`);
+    }
+  });
+
+  return errors;
+}
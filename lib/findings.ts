@@ -0,0 +1,246 @@
+/**
+ * Structured review findings
+ * Severity/category vocabulary, the JSON schema requested from providers,
+ * strict validation of model output and Markdown badges for posting
+ */
+
+import type { LineComment } from './pr-reviewer';
+import { formatPassNames } from './review-passes';
+
+export const SEVERITIES = ['blocker', 'major', 'minor', 'nit'] as const;
+export const CATEGORIES = ['bug', 'security', 'performance', 'readability', 'tests'] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+export type Category = (typeof CATEGORIES)[number];
+
+export const SEVERITY_BADGES: Record<Severity, string> = {
+  blocker: '🔴 Blocker',
+  major: '🟠 Major',
+  minor: '🟡 Minor',
+  nit: '⚪ Nit',
+};
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  bug: '🐛 Bug',
+  security: '🔒 Security',
+  performance: '⚡ Performance',
+  readability: '📖 Readability',
+  tests: '🧪 Tests',
+};
+
+/**
+ * JSON schema for structured-output modes
+ * The root is an object because OpenAI's json_schema mode requires one
+ */
+export const FINDINGS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          line: { type: 'integer' },
+          severity: { type: 'string', enum: [...SEVERITIES] },
+          category: { type: 'string', enum: [...CATEGORIES] },
+          comment: { type: 'string' },
+          rationale: { type: 'string' },
+          startLine: { type: 'integer' },
+          suggestion: { type: 'string' },
+        },
+        required: ['file', 'line', 'severity', 'category', 'comment'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+/**
+ * Prompt text describing the expected output format
+ */
+export const FINDINGS_FORMAT_INSTRUCTIONS = `Respond with ONLY a JSON object of the form:
+{"findings": [{"file": "path/to/file", "line": LINE_NUMBER, "severity": "blocker|major|minor|nit", "category": "bug|security|performance|readability|tests", "comment": "specific feedback for this line", "rationale": "optional: why this matters"}]}
+Severity: blocker = must fix before merge, major = should fix, minor = worth improving, nit = style/preference.
+For trivial fixes, add "suggestion": the exact replacement code for lines startLine..line of the new file (set "startLine" only when replacing more than one line). The suggestion replaces those lines verbatim, so include full lines with their indentation and no diff markers.
+Use an empty findings array if there are no issues.`;
+
+export interface FindingsValidationResult {
+  findings: LineComment[];
+  errors: string[];
+}
+
+/**
+ * Strictly validate model output against the findings schema
+ * Any error means the response must be repaired or rejected as a whole
+ * Attribution the review adds itself (rule, passes) is only kept when allowed, so a
+ * model can't claim it
+ */
+export function validateFindings(raw: unknown, allowAttribution = false): FindingsValidationResult {
+  const errors: string[] = [];
+  const findings: LineComment[] = [];
+
+  // Accept a bare array as well as the { findings: [...] } envelope
+  const items = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { findings?: unknown }).findings)
+      ? (raw as { findings: unknown[] }).findings
+      : null;
+
+  if (!items) {
+    return { findings, errors: ['Response must be an object with a "findings" array'] };
+  }
+
+  items.forEach((item, index) => {
+    const prefix = `findings[${index}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+
+    const { file, line, severity, category, comment, rationale, startLine, suggestion, rule, passes } =
+      item as Record<string, unknown>;
+    const itemErrors: string[] = [];
+
+    if (typeof file !== 'string' || file.trim() === '') {
+      itemErrors.push(`${prefix}.file must be a non-empty string`);
+    }
+    if (typeof line !== 'number' || !Number.isInteger(line) || line < 1) {
+      itemErrors.push(`${prefix}.line must be a positive integer`);
+    }
+    if (!SEVERITIES.includes(severity as Severity)) {
+      itemErrors.push(`${prefix}.severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (!CATEGORIES.includes(category as Category)) {
+      itemErrors.push(`${prefix}.category must be one of ${CATEGORIES.join(', ')}`);
+    }
+    if (typeof comment !== 'string' || comment.trim() === '') {
+      itemErrors.push(`${prefix}.comment must be a non-empty string`);
+    }
+    if (rationale !== undefined && rationale !== null && typeof rationale !== 'string') {
+      itemErrors.push(`${prefix}.rationale must be a string when present`);
+    }
+    if (
+      startLine !== undefined &&
+      startLine !== null &&
+      (typeof startLine !== 'number' ||
+        !Number.isInteger(startLine) ||
+        startLine < 1 ||
+        (typeof line === 'number' && startLine > line))
+    ) {
+      itemErrors.push(`${prefix}.startLine must be a positive integer no greater than line`);
+    }
+    if (suggestion !== undefined && suggestion !== null && typeof suggestion !== 'string') {
+      itemErrors.push(`${prefix}.suggestion must be a string when present`);
+    }
+    if (allowAttribution && rule !== undefined && typeof rule !== 'string') {
+      itemErrors.push(`${prefix}.rule must be a string when present`);
+    }
+    if (
+      allowAttribution &&
+      passes !== undefined &&
+      (!Array.isArray(passes) || passes.some((pass) => typeof pass !== 'string'))
+    ) {
+      itemErrors.push(`${prefix}.passes must be an array of strings when present`);
+    }
+
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors);
+      return;
+    }
+
+    findings.push({
+      file: file as string,
+      line: line as number,
+      severity: severity as Severity,
+      category: category as Category,
+      comment: comment as string,
+      ...(typeof rationale === 'string' && rationale.trim() !== '' ? { rationale } : {}),
+      ...(typeof startLine === 'number' && startLine < (line as number) ? { startLine } : {}),
+      ...(typeof suggestion === 'string' ? { suggestion: suggestion.replace(/\n$/, '') } : {}),
+      ...(allowAttribution && typeof rule === 'string' ? { rule } : {}),
+      ...(allowAttribution && Array.isArray(passes) && passes.length > 0 ? { passes: passes as string[] } : {}),
+    });
+  });
+
+  return { findings, errors };
+}
+
+/**
+ * Parse and validate a raw model response
+ * Tolerates a surrounding ```json fence but nothing else
+ */
+export function parseFindingsResponse(text: string, allowAttribution = false): FindingsValidationResult {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(unfenced);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { findings: [], errors: [`Response is not valid JSON: ${reason}`] };
+  }
+
+  return validateFindings(parsed, allowAttribution);
+}
+
+/**
+ * Parse a file's findings from the review cache, keeping their attribution
+ */
+export function parseCachedFindings(text: string): FindingsValidationResult {
+  return parseFindingsResponse(text, true);
+}
+
+/**
+ * Sort findings from most to least severe, keeping file/line order within a severity
+ */
+export function sortBySeverity(findings: LineComment[]): LineComment[] {
+  return [...findings].sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+  );
+}
+
+/**
+ * Count findings per severity
+ */
+export function countBySeverity(findings: LineComment[]): Record<Severity, number> {
+  const counts = { blocker: 0, major: 0, minor: 0, nit: 0 };
+  for (const finding of findings) {
+    counts[finding.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * Render a one-line "🔴 Blocker: 1 · 🟠 Major: 2" breakdown, skipping empty severities
+ */
+export function formatSeverityCounts(findings: LineComment[]): string {
+  const counts = countBySeverity(findings);
+  return SEVERITIES.filter((severity) => counts[severity] > 0)
+    .map((severity) => `${SEVERITY_BADGES[severity]}: ${counts[severity]}`)
+    .join(' · ');
+}
+
+/**
+ * Render a GitHub suggested-change block, lengthening the fence if the code contains one
+ */
+function formatSuggestion(replacement: string): string {
+  const longestFence = Math.max(2, ...(replacement.match(/`{3,}/g) || []).map((f) => f.length));
+  const fence = '`'.repeat(longestFence + 1);
+  return `${fence}suggestion\n${replacement}\n${fence}`;
+}
+
+/**
+ * Render the Markdown body of an inline review comment
+ */
+export function formatFindingComment(finding: LineComment): string {
+  const header = `**${SEVERITY_BADGES[finding.severity]}** · ${CATEGORY_LABELS[finding.category]}${
+    finding.rule ? ` · 📏 Rule-based (\`${finding.rule}\`)` : ''
+  }${finding.passes?.length ? ` · 🔎 ${formatPassNames(finding.passes)} pass` : ''}`;
+  const suggestion = finding.suggestion !== undefined ? `\n\n${formatSuggestion(finding.suggestion)}` : '';
+  const rationale = finding.rationale
+    ? `\n\n<details><summary>Why this matters</summary>\n\n${finding.rationale}\n\n</details>`
+    : '';
+
+  return `${header}\n\n${finding.comment}${suggestion}${rationale}`;
+}
@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+/**
+ * Calculate SHA-256 hash of file content
+ */
+export function hashFileContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
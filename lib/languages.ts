@@ -0,0 +1,65 @@
+/**
+ * File language detection by name and extension
+ * Shared by the {{languages}} prompt variable and rule pack selection, so both
+ * agree on what language a file is in
+ */
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.pyi': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.kts': 'Kotlin',
+  '.scala': 'Scala',
+  '.rb': 'Ruby',
+  '.rake': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.c': 'C',
+  '.h': 'C',
+  '.cc': 'C++',
+  '.cpp': 'C++',
+  '.hpp': 'C++',
+  '.swift': 'Swift',
+  '.m': 'Objective-C',
+  '.dart': 'Dart',
+  '.sql': 'SQL',
+  '.sh': 'Shell',
+  '.bash': 'Shell',
+  '.zsh': 'Shell',
+  '.css': 'CSS',
+  '.scss': 'SCSS',
+  '.html': 'HTML',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+  '.tf': 'Terraform',
+  '.tfvars': 'Terraform',
+  '.dockerfile': 'Dockerfile',
+  '.yml': 'YAML',
+  '.yaml': 'YAML',
+  '.prisma': 'Prisma',
+};
+
+/**
+ * Detect a file's language from its name or extension, e.g. "TypeScript"
+ * Returns null for unknown file types
+ */
+export function detectPathLanguage(path: string): string | null {
+  const fileName = path.split('/').pop() ?? path;
+  if (/^(Dockerfile|Containerfile)(\..+)?$/i.test(fileName)) {
+    return 'Dockerfile';
+  }
+
+  const extension = fileName.match(/(\.[^.]+)$/)?.[1].toLowerCase() ?? '';
+  return LANGUAGES_BY_EXTENSION[extension] ?? null;
+}
@@ -0,0 +1,230 @@
+/**
+ * Validates AI-reported line comments against the real hunks of a PR diff
+ * The model occasionally invents file paths or points at lines outside the
+ * changed hunks; GitHub can only anchor review comments on lines in the diff
+ */
+
+import parseDiff from 'parse-diff';
+import { hashFileContent } from './hash';
+import type { DiffFile, LineComment } from './pr-reviewer';
+
+// How far (in lines) a comment may be moved to reach the closest added line
+const MAX_SNAP_DISTANCE = 5;
+
+// Lines on each side of a comment that make up its surrounding code
+const CONTEXT_RADIUS = 2;
+
+export interface LineValidationResult {
+  anchored: LineComment[]; // Comments that point at a line in the diff (possibly snapped)
+  unanchored: LineComment[]; // Comments on known files but untouched code (moved to summary)
+  dropped: LineComment[]; // Comments on files that aren't part of the diff
+}
+
+export interface CodeLocation {
+  file: string;
+  line: number;
+}
+
+interface FileLines {
+  commentable: Set<number>; // Added and context lines on the RIGHT side
+  added: number[];
+  hunkOf: Map<number, number>; // RIGHT-side line -> index of the hunk containing it
+  content: Map<number, string>; // RIGHT-side line -> source text (without the diff marker)
+}
+
+/**
+ * Strip the prefixes models sometimes copy from diff headers ("a/", "b/", "./", "/")
+ */
+function normalizePath(path: string): string {
+  return path.trim().replace(/^(a\/|b\/|\.\/|\/)/, '');
+}
+
+/**
+ * Build a map of file path -> commentable line numbers from a unified diff
+ */
+function buildLineMap(diff: string): Map<string, FileLines> {
+  const lineMap = new Map<string, FileLines>();
+
+  for (const file of parseDiff(diff)) {
+    // Deleted files have nothing on the RIGHT side to comment on
+    if (!file.to || file.to === '/dev/null') {
+      continue;
+    }
+
+    const fileLines: FileLines = {
+      commentable: new Set(),
+      added: [],
+      hunkOf: new Map(),
+      content: new Map(),
+    };
+
+    file.chunks.forEach((chunk, hunkIndex) => {
+      for (const change of chunk.changes) {
+        if (change.type === 'del') {
+          continue;
+        }
+        const ln = change.type === 'add' ? change.ln : change.ln2;
+        fileLines.commentable.add(ln);
+        fileLines.hunkOf.set(ln, hunkIndex);
+        fileLines.content.set(ln, change.content.substring(1));
+        if (change.type === 'add') {
+          fileLines.added.push(ln);
+        }
+      }
+    });
+
+    lineMap.set(normalizePath(file.to), fileLines);
+  }
+
+  return lineMap;
+}
+
+/**
+ * Find the added line closest to the given line, within MAX_SNAP_DISTANCE
+ */
+function findClosestAddedLine(line: number, added: number[]): number | null {
+  let closest: number | null = null;
+
+  for (const candidate of added) {
+    const distance = Math.abs(candidate - line);
+    if (distance > MAX_SNAP_DISTANCE) {
+      continue;
+    }
+    if (closest === null || distance < Math.abs(closest - line)) {
+      closest = candidate;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Check that a multi-line range / suggested change targets lines GitHub can apply it to:
+ * every line of the range must be in the same hunk, and the suggestion must change something
+ */
+function isValidRange(comment: LineComment, fileLines: FileLines): boolean {
+  const start = comment.startLine ?? comment.line;
+  const hunk = fileLines.hunkOf.get(comment.line);
+  const original: string[] = [];
+
+  for (let ln = start; ln <= comment.line; ln++) {
+    if (!fileLines.commentable.has(ln) || fileLines.hunkOf.get(ln) !== hunk) {
+      return false;
+    }
+    original.push(fileLines.content.get(ln) ?? '');
+  }
+
+  return comment.suggestion === undefined || comment.suggestion !== original.join('\n');
+}
+
+/**
+ * Remove the range and suggestion from a comment whose target lines can't take them
+ */
+function withoutSuggestion(comment: LineComment): LineComment {
+  if (comment.suggestion !== undefined || comment.startLine !== undefined) {
+    console.log(`[VALIDATOR] Rejecting suggestion for ${comment.file}:${comment.line}, range doesn't match the diff or changes nothing`);
+  }
+  const copy = { ...comment };
+  delete copy.suggestion;
+  delete copy.startLine;
+  return copy;
+}
+
+/**
+ * Check every comment against the diff hunks
+ * Comments on diff lines are kept, near-misses snap to the closest added line,
+ * comments on untouched code are moved to the summary and unknown files are dropped
+ * Suggested changes survive only if their exact range is valid; snapped or
+ * out-of-range suggestions are stripped and the finding is kept as a plain comment
+ */
+export function validateLineComments(
+  comments: LineComment[],
+  diff: string
+): LineValidationResult {
+  const lineMap = buildLineMap(diff);
+  const result: LineValidationResult = { anchored: [], unanchored: [], dropped: [] };
+
+  for (const comment of comments) {
+    if (!comment || typeof comment.file !== 'string' || typeof comment.comment !== 'string') {
+      result.dropped.push(comment);
+      continue;
+    }
+
+    const file = normalizePath(comment.file);
+    const fileLines = lineMap.get(file);
+    const line = Number(comment.line);
+
+    if (!fileLines) {
+      console.log(`[VALIDATOR] Dropping comment on unknown file: ${comment.file}`);
+      result.dropped.push(comment);
+      continue;
+    }
+
+    if (Number.isInteger(line) && fileLines.commentable.has(line)) {
+      const anchored = { ...comment, file, line, side: 'RIGHT' as const };
+      result.anchored.push(isValidRange(anchored, fileLines) ? anchored : withoutSuggestion(anchored));
+      continue;
+    }
+
+    const snapped = Number.isInteger(line) ? findClosestAddedLine(line, fileLines.added) : null;
+    if (snapped !== null) {
+      console.log(`[VALIDATOR] Snapped ${file}:${line} to line ${snapped}`);
+      result.anchored.push({ ...withoutSuggestion(comment), file, line: snapped, side: 'RIGHT' });
+      continue;
+    }
+
+    console.log(`[VALIDATOR] Line ${file}:${comment.line} is outside the diff, moving to summary`);
+    result.unanchored.push({ ...withoutSuggestion(comment), file });
+  }
+
+  return result;
+}
+
+/**
+ * Build a function that hashes the code around a comment's line in this diff
+ * Used to tell whether the code a finding was posted on has changed since
+ */
+export function buildContextHasher(diff: string): (comment: CodeLocation) => string {
+  const lineMap = buildLineMap(diff);
+
+  return (comment: CodeLocation) => {
+    const fileLines = lineMap.get(normalizePath(comment.file));
+    const context: string[] = [];
+
+    for (let ln = comment.line - CONTEXT_RADIUS; ln <= comment.line + CONTEXT_RADIUS; ln++) {
+      context.push(fileLines?.content.get(ln) ?? '');
+    }
+
+    return hashFileContent(context.join('\n'));
+  };
+}
+
+/**
+ * Build a function that tells whether a file/line is visible in this diff
+ * (an added or context line on the RIGHT side)
+ */
+export function buildDiffLineChecker(diff: string): (file: string, line: number) => boolean {
+  const lineMap = buildLineMap(diff);
+
+  return (file: string, line: number) =>
+    lineMap.get(normalizePath(file))?.commentable.has(line) ?? false;
+}
+
+/**
+ * Lines a file diff adds, with their line numbers in the new file
+ */
+export function getAddedLines(file: DiffFile): Array<{ line: number; content: string }> {
+  const added: Array<{ line: number; content: string }> = [];
+
+  for (const parsed of parseDiff(file.fullDiff)) {
+    for (const chunk of parsed.chunks) {
+      for (const change of chunk.changes) {
+        if (change.type === 'add') {
+          added.push({ line: change.ln, content: change.content.substring(1) });
+        }
+      }
+    }
+  }
+
+  return added;
+}
@@ -0,0 +1,64 @@
+import axios from 'axios';
+import { withRetries } from './retry';
+import type { GenerateOptions, LLMProvider } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+
+/**
+ * Anthropic via the Messages API
+ * Structured output is obtained by forcing a tool call whose input schema is
+ * the requested JSON schema; the tool input is returned as the response text
+ */
+export function createAnthropicProvider(model: string = DEFAULT_ANTHROPIC_MODEL): LLMProvider {
+  return {
+    name: 'anthropic',
+    model,
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+      const payload: Record<string, unknown> = {
+        model,
+        max_tokens: 4096,
+        messages: [{ role: 'user', content: prompt }],
+      };
+      if (options.jsonSchema) {
+        payload.tools = [
+          {
+            name: 'respond',
+            description: 'Return the response as structured data',
+            input_schema: options.jsonSchema,
+          },
+        ];
+        payload.tool_choice = { type: 'tool', name: 'respond' };
+      }
+
+      return withRetries('Anthropic', async () => {
+        const response = await axios.post('https://api.anthropic.com/v1/messages', payload, {
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+            'anthropic-version': '2023-06-01',
+          },
+          timeout: options.timeoutMs ?? 30000,
+        });
+
+        if (options.jsonSchema) {
+          const toolBlock = response.data?.content?.find(
+            (block: { type: string }) => block.type === 'tool_use'
+          );
+          if (!toolBlock?.input) {
+            throw new Error('Anthropic response is missing the structured tool output');
+          }
+          return JSON.stringify(toolBlock.input);
+        }
+
+        const textBlock = response.data?.content?.find(
+          (block: { type: string }) => block.type === 'text'
+        );
+        if (typeof textBlock?.text !== 'string') {
+          throw new Error('Invalid response structure from Anthropic');
+        }
+
+        return textBlock.text;
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import parseDiff from 'parse-diff';
+import type { GenerateOptions, LLMProvider } from './types';
+
+/**
+ * Deterministic offline provider for exercising the review pipeline
+ * JSON requests get one minor finding on the first added line of each file in
+ * the prompt's diff; text requests get a fixed Markdown review
+ */
+export function createFakeProvider(model: string = 'fake'): LLMProvider {
+  return {
+    name: 'fake',
+    model,
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+      if (options.responseFormat !== 'json' && !options.jsonSchema) {
+        return 'Fake review: no issues found.';
+      }
+
+      const diffMatch = prompt.match(/```diff\n([\s\S]*?)```/);
+      const comments = [];
+
+      for (const file of parseDiff(diffMatch ? diffMatch[1] : '')) {
+        const firstAdded = file.chunks
+          .flatMap((chunk) => chunk.changes)
+          .find((change) => change.type === 'add');
+
+        if (file.to && firstAdded && firstAdded.type === 'add') {
+          comments.push({
+            file: file.to,
+            line: firstAdded.ln,
+            severity: 'minor',
+            category: 'readability',
+            comment: `Fake review comment for ${file.to}`,
+          });
+        }
+      }
+
+      return JSON.stringify({ findings: comments });
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { withRetries } from './retry';
+import type { GenerateOptions, LLMProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Google Gemini via the generateContent REST API
+ */
+export function createGeminiProvider(model: string = DEFAULT_GEMINI_MODEL): LLMProvider {
+  return {
+    name: 'gemini',
+    model,
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+      const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${process.env.GEMINI_API_KEY}`;
+
+      const payload: Record<string, unknown> = {
+        contents: [{ parts: [{ text: prompt }] }],
+      };
+      if (options.jsonSchema) {
+        payload.generationConfig = {
+          responseMimeType: 'application/json',
+          responseJsonSchema: options.jsonSchema,
+        };
+      } else if (options.responseFormat === 'json') {
+        payload.generationConfig = { responseMimeType: 'application/json' };
+      }
+
+      return withRetries('Gemini', async () => {
+        const response = await axios.post(geminiUrl, payload, {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: options.timeoutMs ?? 30000,
+        });
+
+        const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (typeof text !== 'string') {
+          throw new Error('Invalid response structure from Gemini');
+        }
+
+        return text;
+      });
+    },
+  };
+}
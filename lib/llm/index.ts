@@ -0,0 +1,55 @@
+/**
+ * LLM provider registry
+ * Repositories pick a provider and model through RepositoryConfiguration;
+ * LLM_PROVIDER / LLM_MODEL set the instance-wide default
+ */
+
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai';
+import { createAnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic';
+import { createFakeProvider } from './fake';
+import type { LLMProvider, ProviderName, ProviderSettings } from './types';
+
+export type { GenerateOptions, LLMProvider, ProviderName, ProviderSettings } from './types';
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'anthropic', 'fake'];
+
+export const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: DEFAULT_GEMINI_MODEL,
+  openai: DEFAULT_OPENAI_MODEL,
+  anthropic: DEFAULT_ANTHROPIC_MODEL,
+  fake: 'fake',
+};
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolve the provider for a repository, falling back to the environment default
+ */
+export function getProvider(settings: ProviderSettings = {}): LLMProvider {
+  const requested = settings.provider || process.env.LLM_PROVIDER || 'gemini';
+
+  if (!isProviderName(requested)) {
+    throw new Error(`Unknown LLM provider: ${requested}`);
+  }
+
+  // LLM_MODEL only applies to the environment default provider
+  const model =
+    settings.model ||
+    (settings.provider ? null : process.env.LLM_MODEL) ||
+    DEFAULT_MODELS[requested];
+
+  switch (requested) {
+    case 'openai':
+      return createOpenAIProvider(model);
+    case 'anthropic':
+      return createAnthropicProvider(model);
+    case 'fake':
+      return createFakeProvider(model);
+    case 'gemini':
+    default:
+      return createGeminiProvider(model);
+  }
+}
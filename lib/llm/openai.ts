@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { withRetries } from './retry';
+import type { GenerateOptions, LLMProvider } from './types';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Any OpenAI-compatible chat completions endpoint
+ * Set OPENAI_BASE_URL to target local servers such as Ollama
+ * (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+ */
+export function createOpenAIProvider(model: string = DEFAULT_OPENAI_MODEL): LLMProvider {
+  return {
+    name: 'openai',
+    model,
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+      const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+      const payload: Record<string, unknown> = {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+      };
+      if (options.jsonSchema) {
+        // Not strict: strict mode forbids optional properties
+        payload.response_format = {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: options.jsonSchema, strict: false },
+        };
+      } else if (options.responseFormat === 'json') {
+        payload.response_format = { type: 'json_object' };
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      // Local servers usually don't need a key
+      if (process.env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      return withRetries('OpenAI', async () => {
+        const response = await axios.post(`${baseUrl}/chat/completions`, payload, {
+          headers,
+          timeout: options.timeoutMs ?? 30000,
+        });
+
+        const text = response.data?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+          throw new Error('Invalid response structure from OpenAI-compatible endpoint');
+        }
+
+        return text;
+      });
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import axios from 'axios';
+
+/**
+ * Run an LLM request, retrying rate limits and server errors with exponential backoff
+ * Non-HTTP errors (e.g. malformed responses) are also retried
+ */
+export async function withRetries<T>(
+  label: string,
+  request: () => Promise<T>,
+  maxRetries: number = 3
+): Promise<T> {
+  let lastError;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      lastError = error;
+      const isAxiosError = axios.isAxiosError(error);
+      const status = isAxiosError ? error.response?.status : null;
+      const isRetryable =
+        !isAxiosError ||
+        (status && (status === 429 || status === 503 || status >= 500));
+
+      if (!isRetryable || attempt === maxRetries - 1) {
+        throw error;
+      }
+
+      const delayMs = Math.pow(2, attempt) * 1000;
+      console.log(
+        `[LLM] ${label} API error (attempt ${attempt + 1}/${maxRetries}), retrying in ${delayMs}ms...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  throw lastError || new Error(`Failed to get ${label} response after retries`);
+}
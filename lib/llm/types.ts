@@ -0,0 +1,22 @@
+/**
+ * Shared types for LLM providers
+ */
+
+export type ProviderName = 'gemini' | 'openai' | 'anthropic' | 'fake';
+
+export interface GenerateOptions {
+  responseFormat?: 'json' | 'text'; // Hint for providers with a native JSON mode
+  jsonSchema?: Record<string, unknown>; // Structured-output schema (implies responseFormat 'json')
+  timeoutMs?: number;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+export interface ProviderSettings {
+  provider?: string | null;
+  model?: string | null;
+}
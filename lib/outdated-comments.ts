@@ -0,0 +1,174 @@
+/**
+ * Resolves bot comments whose findings no longer apply
+ * After each review, open comments on code the review looked at are compared
+ * with the new findings; comments that weren't reported again (or whose code
+ * changed) get a short reply and their thread is resolved, or the comment is
+ * minimized as outdated if the thread can't be resolved
+ */
+
+import axios from 'axios';
+import { getOpenPostedComments, hashFinding, markCommentResolved } from './posted-comments';
+import type { CodeLocation } from './line-validator';
+import type { LineComment } from './pr-reviewer';
+
+export interface OutdatedCommentCheck {
+  repositoryId: number;
+  prNumber: number;
+  repositoryFullName: string; // "owner/name"
+  pullRequestUrl: string; // REST API URL of the pull request
+  currentFindings: LineComment[]; // Anchored findings of the new review, before de-duplication
+  skippedPaths: Set<string>; // Files the new review didn't check (filtered out, ignored, failed or text-only chunks)
+  isLineInDiff: (file: string, line: number) => boolean;
+  contextHashFor: (location: CodeLocation) => string;
+  token: string;
+}
+
+/**
+ * Run a GitHub GraphQL request, throwing on GraphQL-level errors
+ */
+async function githubGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  token: string
+): Promise<T> {
+  const response = await axios.post(
+    'https://api.github.com/graphql',
+    { query, variables },
+    { headers: { Authorization: `bearer ${token}` } }
+  );
+
+  if (response.data.errors?.length) {
+    throw new Error(`GitHub GraphQL error: ${response.data.errors[0].message}`);
+  }
+
+  return response.data.data;
+}
+
+/**
+ * Map the node ID of each thread's first comment to the thread ID
+ */
+async function fetchReviewThreadIds(
+  repositoryFullName: string,
+  prNumber: number,
+  token: string
+): Promise<Map<string, { threadId: string; isResolved: boolean }>> {
+  const [owner, name] = repositoryFullName.split('/');
+  const data = await githubGraphQL<{
+    repository: {
+      pullRequest: {
+        reviewThreads: {
+          nodes: Array<{ id: string; isResolved: boolean; comments: { nodes: Array<{ id: string }> } }>;
+        };
+      };
+    };
+  }>(
+    `query($owner: String!, $name: String!, $number: Int!) {
+      repository(owner: $owner, name: $name) {
+        pullRequest(number: $number) {
+          reviewThreads(first: 100) {
+            nodes { id isResolved comments(first: 1) { nodes { id } } }
+          }
+        }
+      }
+    }`,
+    { owner, name, number: prNumber },
+    token
+  );
+
+  const threads = new Map<string, { threadId: string; isResolved: boolean }>();
+  for (const thread of data.repository.pullRequest.reviewThreads.nodes) {
+    const firstComment = thread.comments.nodes[0];
+    if (firstComment) {
+      threads.set(firstComment.id, { threadId: thread.id, isResolved: thread.isResolved });
+    }
+  }
+
+  return threads;
+}
+
+/**
+ * Find and resolve outdated bot comments on a PR
+ * Returns the number of comments resolved or minimized
+ */
+export async function resolveOutdatedComments(check: OutdatedCommentCheck): Promise<number> {
+  const openComments = await getOpenPostedComments(check.repositoryId, check.prNumber);
+  if (openComments.length === 0) {
+    return 0;
+  }
+
+  const currentKeys = new Set(
+    check.currentFindings.map(
+      (finding) => `${finding.file}:${hashFinding(finding)}:${check.contextHashFor(finding)}`
+    )
+  );
+
+  // Only judge comments on code the new review actually saw
+  const outdated = openComments.filter(
+    (posted: { filePath: string; line: number; findingHash: string; contextHash: string }) =>
+      !check.skippedPaths.has(posted.filePath) &&
+      check.isLineInDiff(posted.filePath, posted.line) &&
+      !currentKeys.has(`${posted.filePath}:${posted.findingHash}:${posted.contextHash}`)
+  );
+
+  if (outdated.length === 0) {
+    return 0;
+  }
+
+  console.log(`[OUTDATED] ${outdated.length} comment(s) on PR #${check.prNumber} no longer apply`);
+
+  const headers = {
+    Authorization: `token ${check.token}`,
+    Accept: 'application/vnd.github.v3+json',
+  };
+
+  let threads: Map<string, { threadId: string; isResolved: boolean }> = new Map();
+  try {
+    threads = await fetchReviewThreadIds(check.repositoryFullName, check.prNumber, check.token);
+  } catch (error) {
+    console.error('[OUTDATED] Failed to fetch review threads, falling back to minimizing:', error);
+  }
+
+  let resolvedCount = 0;
+  for (const posted of outdated) {
+    try {
+      const codeChanged =
+        check.contextHashFor({ file: posted.filePath, line: posted.line }) !== posted.contextHash;
+      const reply = codeChanged
+        ? '✅ The code this comment referred to has changed, so I\'m marking it as outdated.'
+        : '✅ The latest review no longer reports this finding, so I\'m marking it as resolved.';
+
+      await axios.post(
+        `${check.pullRequestUrl}/comments/${posted.githubCommentId}/replies`,
+        { body: reply },
+        { headers }
+      );
+
+      const thread = posted.githubNodeId ? threads.get(posted.githubNodeId) : undefined;
+      if (thread && !thread.isResolved) {
+        await githubGraphQL(
+          `mutation($threadId: ID!) {
+            resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+          }`,
+          { threadId: thread.threadId },
+          check.token
+        );
+      } else if (!thread && posted.githubNodeId) {
+        await githubGraphQL(
+          `mutation($subjectId: ID!) {
+            minimizeComment(input: { subjectId: $subjectId, classifier: OUTDATED }) { minimizedComment { isMinimized } }
+          }`,
+          { subjectId: posted.githubNodeId },
+          check.token
+        );
+      }
+
+      await markCommentResolved(posted.id);
+      resolvedCount++;
+      console.log(`[OUTDATED] Resolved comment on ${posted.filePath}:${posted.line}`);
+    } catch (error) {
+      console.error(`[OUTDATED] Failed to resolve comment on ${posted.filePath}:${posted.line}:`, error);
+    }
+  }
+
+  return resolvedCount;
+}
@@ -0,0 +1,134 @@
+/**
+ * Decides which files in a diff are sent to the model
+ * Applies per-repository include/exclude globs, built-in exclusions for
+ * lockfiles, vendored and generated code, and skips binary or oversized diffs
+ */
+
+import picomatch from 'picomatch';
+import type { DiffFile } from './pr-reviewer';
+
+export const DEFAULT_MAX_FILE_DIFF_KB = 100;
+
+// Files that are almost never worth reviewing line by line
+export const DEFAULT_EXCLUDE_PATTERNS: Array<{ pattern: string; reason: string }> = [
+  { pattern: '**/{package-lock.json,npm-shrinkwrap.json,yarn.lock,pnpm-lock.yaml,bun.lockb}', reason: 'lockfile' },
+  { pattern: '**/{Cargo.lock,Gemfile.lock,poetry.lock,Pipfile.lock,composer.lock,go.sum,mix.lock}', reason: 'lockfile' },
+  { pattern: '**/{vendor,third_party,node_modules}/**', reason: 'vendored' },
+  { pattern: '**/*.min.{js,css}', reason: 'minified' },
+  { pattern: '**/*.{map,snap}', reason: 'generated' },
+  { pattern: '**/__snapshots__/**', reason: 'snapshot' },
+  { pattern: '**/{dist,build,out,.next}/**', reason: 'build output' },
+  { pattern: '**/generated/**', reason: 'generated' },
+  { pattern: '**/migrations/**/*.sql', reason: 'migration' },
+];
+
+export interface PathFilterConfig {
+  includePaths?: string[] | null; // If non-empty, only matching files are reviewed
+  excludePaths?: string[] | null; // Always skipped, even if included
+  maxFileDiffKb?: number | null;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+const matchOptions = { dot: true };
+
+/**
+ * Whether a file diff is a binary change
+ */
+function isBinaryDiff(file: DiffFile): boolean {
+  return file.lines.some(
+    (line) => line === 'GIT binary patch' || /^Binary files .* differ$/.test(line)
+  );
+}
+
+/**
+ * Whether the added code carries a generated-file marker near the top
+ */
+function hasGeneratedMarker(file: DiffFile): boolean {
+  return file.lines
+    .filter((line) => line.startsWith('+') && !line.startsWith('+++'))
+    .slice(0, 5)
+    .some((line) => /@generated|DO NOT EDIT|auto-generated/i.test(line));
+}
+
+/**
+ * Split diff files into the ones to review and the ones skipped (with a reason)
+ * Precedence: binary/size limits > repository excludes > repository includes > built-in defaults
+ */
+export function filterDiffFiles(
+  files: DiffFile[],
+  config: PathFilterConfig = {}
+): { included: DiffFile[]; skipped: SkippedFile[] } {
+  const excludes = (config.excludePaths || []).filter(Boolean);
+  const includes = (config.includePaths || []).filter(Boolean);
+  const isExcluded = excludes.length > 0 ? picomatch(excludes, matchOptions) : () => false;
+  const isIncluded = includes.length > 0 ? picomatch(includes, matchOptions) : null;
+  const defaultMatchers = DEFAULT_EXCLUDE_PATTERNS.map(({ pattern, reason }) => ({
+    matches: picomatch(pattern, matchOptions),
+    reason,
+  }));
+  const maxBytes = (config.maxFileDiffKb || DEFAULT_MAX_FILE_DIFF_KB) * 1024;
+
+  const included: DiffFile[] = [];
+  const skipped: SkippedFile[] = [];
+
+  for (const file of files) {
+    const skip = (reason: string) => skipped.push({ path: file.path, reason });
+
+    if (isBinaryDiff(file)) {
+      skip('binary');
+      continue;
+    }
+    if (Buffer.byteLength(file.fullDiff) > maxBytes) {
+      skip(`diff larger than ${maxBytes / 1024} KB`);
+      continue;
+    }
+    if (isExcluded(file.path)) {
+      skip('excluded by repository settings');
+      continue;
+    }
+
+    if (isIncluded) {
+      // An explicit include overrides the built-in exclusions
+      if (isIncluded(file.path)) {
+        included.push(file);
+      } else {
+        skip('not in included paths');
+      }
+      continue;
+    }
+
+    const defaultMatch = defaultMatchers.find((matcher) => matcher.matches(file.path));
+    if (defaultMatch) {
+      skip(defaultMatch.reason);
+      continue;
+    }
+    if (hasGeneratedMarker(file)) {
+      skip('generated');
+      continue;
+    }
+
+    included.push(file);
+  }
+
+  if (skipped.length > 0) {
+    console.log(`[FILTER] Skipping ${skipped.length} file(s): ${skipped.map((s) => s.path).join(', ')}`);
+  }
+
+  return { included, skipped };
+}
+
+/**
+ * Render the skipped-files section for the summary comment
+ */
+export function formatSkippedFiles(skipped: SkippedFile[]): string {
+  if (skipped.length === 0) {
+    return '';
+  }
+
+  const rows = skipped.map((s) => `- \`${s.path}\` (${s.reason})`).join('\n');
+  return `\n\n<details><summary>${skipped.length} file(s) not reviewed</summary>\n\n${rows}\n\n</details>`;
+}
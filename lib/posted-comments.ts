@@ -0,0 +1,188 @@
+import { prisma } from './prisma';
+import { hashFileContent } from './hash';
+import type { CodeLocation } from './line-validator';
+import type { LineComment } from './pr-reviewer';
+
+export interface PostedCommentRecord {
+  comment: LineComment;
+  githubCommentId: number;
+  githubNodeId?: string;
+  body: string;
+}
+
+/**
+ * Hash a finding's text (whitespace-normalized) with its file, severity and category
+ * The line number is left out so a finding whose code merely moved is still recognized
+ */
+export function hashFinding(comment: LineComment): string {
+  const text = comment.comment.trim().replace(/\s+/g, ' ');
+  return hashFileContent(`${comment.file}\n${comment.severity}\n${comment.category}\n${text}`);
+}
+
+/**
+ * Split findings into ones not yet posted on this PR and duplicates
+ * A finding is a duplicate if the same text was posted on the same file, the
+ * code around its line hasn't changed since and the comment is still open
+ */
+export async function filterAlreadyPosted(
+  repositoryId: number,
+  prNumber: number,
+  comments: LineComment[],
+  contextHashFor: (location: CodeLocation) => string
+): Promise<{ fresh: LineComment[]; duplicates: LineComment[] }> {
+  if (comments.length === 0) {
+    return { fresh: [], duplicates: [] };
+  }
+
+  try {
+    const posted = await prisma.postedComment.findMany({
+      where: { repositoryId, prNumber, resolvedAt: null },
+      select: { filePath: true, findingHash: true, contextHash: true },
+    });
+
+    const postedKeys = new Set(
+      posted.map((p: { filePath: string; findingHash: string; contextHash: string }) =>
+        `${p.filePath}:${p.findingHash}:${p.contextHash}`
+      )
+    );
+
+    const fresh: LineComment[] = [];
+    const duplicates: LineComment[] = [];
+    for (const comment of comments) {
+      const key = `${comment.file}:${hashFinding(comment)}:${contextHashFor(comment)}`;
+      (postedKeys.has(key) ? duplicates : fresh).push(comment);
+    }
+
+    console.log(`[POSTED] ${duplicates.length}/${comments.length} finding(s) already posted on PR #${prNumber}`);
+    return { fresh, duplicates };
+  } catch (error) {
+    // Posting a duplicate is better than losing a finding
+    console.error('[POSTED] Error checking posted comments:', error);
+    return { fresh: comments, duplicates: [] };
+  }
+}
+
+/**
+ * Record comments the bot just posted
+ */
+export async function recordPostedComments(
+  repositoryId: number,
+  prNumber: number,
+  records: PostedCommentRecord[],
+  contextHashFor: (location: CodeLocation) => string
+): Promise<number> {
+  if (records.length === 0) {
+    return 0;
+  }
+
+  try {
+    const result = await prisma.postedComment.createMany({
+      data: records.map((record) => ({
+        repositoryId,
+        prNumber,
+        filePath: record.comment.file,
+        line: record.comment.line,
+        findingHash: hashFinding(record.comment),
+        contextHash: contextHashFor(record.comment),
+        body: record.body,
+        finding: JSON.stringify(record.comment),
+        githubCommentId: BigInt(record.githubCommentId),
+        githubNodeId: record.githubNodeId ?? null,
+      })),
+    });
+
+    console.log(`[POSTED] Recorded ${result.count} comment(s) for PR #${prNumber}`);
+    return result.count;
+  } catch (error) {
+    console.error('[POSTED] Error recording posted comments:', error);
+    return 0;
+  }
+}
+
+/**
+ * Get the bot's open (unresolved) comments on a PR
+ */
+export async function getOpenPostedComments(repositoryId: number, prNumber: number) {
+  try {
+    return await prisma.postedComment.findMany({
+      where: { repositoryId, prNumber, resolvedAt: null },
+    });
+  } catch (error) {
+    console.error('[POSTED] Error retrieving open comments:', error);
+    return [];
+  }
+}
+
+/**
+ * Findings of the bot's open comments that a review didn't look at again
+ * Comments on reviewed code are either reported again or resolved; the others
+ * stay open and still count in the walkthrough and check run. Findings the
+ * review reported again are left out, as are comments recorded without one
+ */
+export async function getCarriedOverFindings(
+  repositoryId: number,
+  prNumber: number,
+  currentFindings: LineComment[],
+  isReviewed: (file: string, line: number) => boolean,
+  contextHashFor: (location: CodeLocation) => string
+): Promise<LineComment[]> {
+  const openComments = await getOpenPostedComments(repositoryId, prNumber);
+  const currentKeys = new Set(
+    currentFindings.map((finding) => `${finding.file}:${hashFinding(finding)}:${contextHashFor(finding)}`)
+  );
+
+  const carried: LineComment[] = [];
+  for (const posted of openComments) {
+    if (
+      !posted.finding ||
+      isReviewed(posted.filePath, posted.line) ||
+      currentKeys.has(`${posted.filePath}:${posted.findingHash}:${posted.contextHash}`)
+    ) {
+      continue;
+    }
+    try {
+      carried.push(JSON.parse(posted.finding) as LineComment);
+    } catch (error) {
+      console.error(`[POSTED] Could not read finding of comment ${posted.id}:`, error);
+    }
+  }
+
+  if (carried.length > 0) {
+    console.log(`[POSTED] ${carried.length} open finding(s) from earlier reviews on PR #${prNumber}`);
+  }
+  return carried;
+}
+
+/**
+ * Mark a posted comment as resolved
+ */
+export async function markCommentResolved(id: number): Promise<void> {
+  await prisma.postedComment.update({
+    where: { id },
+    data: { resolvedAt: new Date() },
+  });
+}
+
+/**
+ * List the bot's comments on a PR, newest first
+ */
+export async function getPostedComments(repositoryId: number, prNumber: number) {
+  return prisma.postedComment.findMany({
+    where: { repositoryId, prNumber },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Find the bot comment with a given GitHub comment ID, or null if the bot didn't post it
+ */
+export async function findPostedComment(repositoryId: number, githubCommentId: number) {
+  try {
+    return await prisma.postedComment.findFirst({
+      where: { repositoryId, githubCommentId: BigInt(githubCommentId) },
+    });
+  } catch (error) {
+    console.error('[POSTED] Error looking up posted comment:', error);
+    return null;
+  }
+}
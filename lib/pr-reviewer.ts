@@ -4,14 +4,73 @@
  */
 
 import axios from 'axios';
-import parseDiff from 'parse-diff';
 import { prisma } from './prisma';
-import { getCachedReview, cacheReview, hashFileContent } from './cache';
+import { getCachedReview, cacheReview } from './cache';
+import { buildContextHasher, buildDiffLineChecker, validateLineComments } from './line-validator';
+import { getProvider } from './llm';
+import { getPullRequestState, recordReviewedSha, recordWalkthroughCommentId } from './pr-state';
+import {
+  filterAlreadyPosted,
+  getCarriedOverFindings,
+  recordPostedComments,
+  PostedCommentRecord,
+} from './posted-comments';
+import picomatch from 'picomatch';
+import { filterDiffFiles, formatSkippedFiles, PathFilterConfig } from './path-filters';
+import { loadEffectiveConfig, formatConfigErrors, REPO_CONFIG_PATH } from './repo-config';
+import { resolveOutdatedComments } from './outdated-comments';
+import { saveShadowReview } from './shadow-reviews';
+import { evaluateTrigger } from './trigger-policy';
+import { renderPromptTemplate, fileVariables } from './prompt-templates';
+import { resolveRulePacks } from './rule-packs';
+import { dedupeAgainstRuleFindings } from './custom-rules';
+import { resolveReviewPasses, PassMetrics } from './review-passes';
+import {
+  startCheckRun,
+  completeCheckRun,
+  abortCheckRun,
+  isCheckConclusionPolicy,
+  DEFAULT_CHECK_CONCLUSION_POLICY,
+} from './check-runs';
+import {
+  fetchCommitMessages,
+  generateWalkthrough,
+  formatWalkthrough,
+  upsertWalkthroughComment,
+  Walkthrough,
+} from './walkthrough';
+import { loadReviewContext, buildChunkContext, ReviewContextSources } from './code-context';
+import {
+  parseAndHashDiff,
+  getAiReviewAsJson,
+  getAiReviewAsText,
+  getContextTokenBudget,
+  reviewDiffFiles,
+  runDeterministicChecks,
+} from './review-engine';
+import {
+  SEVERITY_BADGES,
+  CATEGORY_LABELS,
+  Category,
+  Severity,
+  formatFindingComment,
+  formatSeverityCounts,
+  parseCachedFindings,
+  sortBySeverity,
+} from './findings';
 
 export interface LineComment {
   file: string;
   line: number;
   comment: string;
+  severity: Severity;
+  category: Category;
+  rationale?: string;
+  startLine?: number; // First line of a multi-line range ending at `line`
+  suggestion?: string; // Exact replacement for lines startLine..line (GitHub suggested change)
+  side?: 'LEFT' | 'RIGHT'; // LEFT = deleted line, RIGHT = added/context line (default)
+  rule?: string; // Id of the repository rule that raised a rule-based finding (unset for AI findings)
+  passes?: string[]; // Review passes that raised the finding (unset for a generic review)
 }
 
 export interface ReviewMetrics {
@@ -23,224 +82,97 @@ export interface ReviewMetrics {
   errorMessage: string | null;
   filesTotalCount?: number;
   fileCachedCount?: number;
+  rejectedCommentCount?: number;
+  headSha?: string;
+  findings?: LineComment[]; // Open findings in the reviewed range (new, still applicable and outside the diff)
+  promptVersionId?: number | null; // Dashboard prompt version used
+  passMetrics?: PassMetrics[]; // Per-pass model time and findings (multi-pass reviews only)
 }
 
-interface DiffFile {
+export interface DiffFile {
   path: string;
   contentHash: string;
   fullDiff: string;
   lines: string[];
 }
 
-/**
- * Parse diff into file-level diffs and compute content hashes
- * Returns array of files with their diffs and content hashes
- */
-function parseAndHashDiff(fullDiff: string): DiffFile[] {
-  const files: DiffFile[] = [];
-  const lines = fullDiff.split('\n');
-
-  let currentFile: { path: string; lines: string[] } | null = null;
-  const fileMap: { [path: string]: string[] } = {};
-
-  for (const line of lines) {
-    // Detect file header (e.g., "--- a/path/to/file" or "diff --git a/path b/path")
-    if (line.startsWith('diff --git a/') || line.startsWith('--- a/')) {
-      if (currentFile && currentFile.lines.length > 0) {
-        fileMap[currentFile.path] = currentFile.lines;
-      }
-
-      // Extract file path from diff header
-      let path = '';
-      if (line.startsWith('diff --git a/')) {
-        const match = line.match(/diff --git a\/(.+) b\/(.+)$/);
-        path = match ? match[1] : line;
-      } else if (line.startsWith('--- a/')) {
-        path = line.substring(6); // Remove "--- a/"
-      }
-
-      currentFile = { path: path.trim(), lines: [] };
-    }
-
-    if (currentFile) {
-      currentFile.lines.push(line);
-    }
-  }
-
-  // Don't forget the last file
-  if (currentFile && currentFile.lines.length > 0) {
-    fileMap[currentFile.path] = currentFile.lines;
-  }
-
-  // Create DiffFile objects with hashes
-  for (const [path, fileLines] of Object.entries(fileMap)) {
-    const fullDiff = fileLines.join('\n');
-    const contentHash = hashFileContent(fullDiff);
-    files.push({
-      path,
-      contentHash,
-      fullDiff,
-      lines: fileLines,
-    });
-  }
+export interface ReviewOptions {
+  manual?: boolean; // Requested with a slash command: runs regardless of the trigger policy or pause
+  fullReview?: boolean; // Review the whole PR and ignore cached file reviews
+  onlyPaths?: string[]; // Review only these files (globs); earlier comments and PR state are left alone
+}
 
-  return files;
+interface ReviewRange {
+  baseSha: string | null; // null = full PR review
+  headSha: string;
 }
 
 /**
- * Get AI review as JSON (line-specific comments)
+ * Fetch the diff to review
+ * If the PR was reviewed before and the new head builds on that commit, only the
+ * compare range lastReviewedSha...head is fetched; the first review, pushes
+ * that rewrote history (force-push) and ranges with a merge commit (e.g. the
+ * base branch merged in, whose changes aren't part of the PR) fetch the full PR diff
  */
-async function getAiReviewAsJson(
-  diff: string,
-  customPrompt?: string | null
-): Promise<LineComment[]> {
-  const prompt = customPrompt
-    ? `${customPrompt}\n\nReview this diff and respond with ONLY a valid JSON array.
-Format: [{"file": "path/to/file", "line": LINE_NUMBER, "comment": "specific feedback for this line"}]
-Focus on actionable feedback. Include only lines that need improvement.
-
-Diff:
-\`\`\`diff
-${diff}
-\`\`\``
-    : `You are a senior software engineer providing line-by-line code review.
-Review the diff and respond with ONLY a valid JSON array.
-Format: [{"file": "path/to/file", "line": LINE_NUMBER, "comment": "specific feedback"}]
-Focus on: potential bugs, code clarity, best practices, security issues.
-Include only lines that need improvement. Empty array if no issues.
-
-Diff:
-\`\`\`diff
-${diff}
-\`\`\``;
-
-  const modelName = 'gemini-2.5-flash';
-  const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${process.env.GEMINI_API_KEY}`;
-
-  const payload = {
-    contents: [{ parts: [{ text: prompt }] }],
+async function fetchReviewDiff(
+  pullRequest: { head: { sha: string }; diff_url: string },
+  repositoryUrl: string,
+  lastReviewedSha: string | null,
+  token: string
+): Promise<{ diff: string; range: ReviewRange }> {
+  const headSha: string = pullRequest.head.sha;
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: 'application/vnd.github.v3+json',
   };
 
-  const maxRetries = 3;
-  let lastError;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
+  if (lastReviewedSha && lastReviewedSha !== headSha) {
+    const compareUrl = `${repositoryUrl}/compare/${lastReviewedSha}...${headSha}`;
     try {
-      const response = await axios.post(geminiUrl, payload, {
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 30000,
-      });
-
-      if (
-        response.data &&
-        response.data.candidates &&
-        response.data.candidates[0]?.content
-      ) {
-        const responseText = response.data.candidates[0].content.parts[0].text;
-
-        const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-        if (jsonMatch) {
-          const parsed = JSON.parse(jsonMatch[0]);
-          if (Array.isArray(parsed)) {
-            return parsed;
-          }
-        }
-
-        console.log('[REVIEWER] Failed to parse JSON from Gemini, falling back to text');
-        return [];
+      const compare = await axios.get(compareUrl, { headers });
+
+      // The compare API lists at most 250 commits; a longer range is treated as if it had a merge
+      const commits: Array<{ parents?: unknown[] }> = compare.data.commits ?? [];
+      const hasMergeCommit =
+        commits.length < (compare.data.total_commits ?? 0) ||
+        commits.some((commit) => (commit.parents?.length ?? 0) > 1);
+
+      if (compare.data.status === 'ahead' && !hasMergeCommit) {
+        console.log(`[REVIEWER] Incremental review of ${lastReviewedSha.substring(0, 7)}...${headSha.substring(0, 7)}`);
+        const diffResponse = await axios.get(compareUrl, {
+          headers: { ...headers, Accept: 'application/vnd.github.v3.diff' },
+        });
+        return { diff: diffResponse.data, range: { baseSha: lastReviewedSha, headSha } };
       }
 
-      throw new Error('Invalid response structure from Gemini');
-    } catch (error) {
-      lastError = error;
-      const isAxiosError = axios.isAxiosError(error);
-      const status = isAxiosError ? error.response?.status : null;
-      const isRetryable =
-        !isAxiosError ||
-        (status && (status === 429 || status === 503 || status >= 500));
-
-      if (!isRetryable || attempt === maxRetries - 1) {
-        throw error;
+      if (compare.data.status === 'ahead') {
+        console.log('[REVIEWER] New commits include a merge, running full review');
+      } else {
+        console.log(`[REVIEWER] History was rewritten (compare status: ${compare.data.status}), running full review`);
       }
-
-      const delayMs = Math.pow(2, attempt) * 1000;
-      console.log(
-        `[REVIEWER] Gemini API error (attempt ${attempt + 1}/${maxRetries}), retrying in ${delayMs}ms...`
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    } catch (error) {
+      // The old SHA may no longer exist after a force-push
+      console.warn('[REVIEWER] Could not compare against last reviewed commit, running full review:', error);
     }
+  } else if (lastReviewedSha === headSha) {
+    console.log('[REVIEWER] Head already reviewed, nothing new to review');
+    return { diff: '', range: { baseSha: headSha, headSha } };
   }
 
-  throw lastError || new Error('Failed to get AI review after retries');
+  const diffResponse = await axios.get(pullRequest.diff_url, {
+    headers: { ...headers, Accept: 'application/vnd.github.v3.diff' },
+  });
+  return { diff: diffResponse.data, range: { baseSha: null, headSha } };
 }
 
 /**
- * Get single comment review (fallback)
+ * Describe the reviewed commit range for the summary comment
  */
-async function getAiReviewAsText(
-  diff: string,
-  customPrompt?: string | null
-): Promise<string> {
-  const prompt = customPrompt
-    ? `${customPrompt}\n\nHere is the diff to review:\n\`\`\`diff\n${diff}\n\`\`\``
-    : `You are a senior software engineer providing a code review.
-Review the following code diff and provide constructive feedback.
-Focus on potential bugs, code clarity, and adherence to best practices.
-Format your response in Markdown.
-
-Here is the diff:
-\`\`\`diff
-${diff}
-\`\`\``;
-
-  const modelName = 'gemini-2.5-flash';
-  const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${process.env.GEMINI_API_KEY}`;
-
-  const payload = {
-    contents: [{ parts: [{ text: prompt }] }],
-  };
-
-  const maxRetries = 3;
-  let lastError;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      const response = await axios.post(geminiUrl, payload, {
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 30000,
-      });
-
-      if (
-        response.data &&
-        response.data.candidates &&
-        response.data.candidates[0]?.content
-      ) {
-        const reviewText = response.data.candidates[0].content.parts[0].text;
-        return `### 🤖 AI Code Review\n\n${reviewText}`;
-      }
-
-      throw new Error('Invalid response structure from Gemini');
-    } catch (error) {
-      lastError = error;
-      const isAxiosError = axios.isAxiosError(error);
-      const status = isAxiosError ? error.response?.status : null;
-      const isRetryable =
-        !isAxiosError ||
-        (status && (status === 429 || status === 503 || status >= 500));
-
-      if (!isRetryable || attempt === maxRetries - 1) {
-        throw error;
-      }
-
-      const delayMs = Math.pow(2, attempt) * 1000;
-      console.log(
-        `[REVIEWER] Gemini API error (attempt ${attempt + 1}/${maxRetries}), retrying in ${delayMs}ms...`
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
+function describeReviewRange(range: ReviewRange): string {
+  if (range.baseSha) {
+    return `Reviewed commits \`${range.baseSha.substring(0, 7)}...${range.headSha.substring(0, 7)}\` (changes since the last review)`;
   }
-
-  throw lastError || new Error('Failed to get AI review after retries');
+  return `Reviewed the full pull request at \`${range.headSha.substring(0, 7)}\``;
 }
 
 /**
@@ -257,38 +189,115 @@ async function getInstallationToken(): Promise<string> {
 }
 
 /**
- * Post line-specific comments to GitHub PR
+ * Build the review body, listing any findings that couldn't be anchored inline
  */
-async function postLineCommentsToPR(
-  commentsUrl: string,
+function buildReviewBody(summary: string, unanchored: LineComment[]): string {
+  if (unanchored.length === 0) {
+    return summary;
+  }
+
+  const list = sortBySeverity(unanchored)
+    .map(
+      (c) =>
+        `- ${SEVERITY_BADGES[c.severity]} · ${CATEGORY_LABELS[c.category]} **${c.file}** (line ${c.line}): ${c.comment}`
+    )
+    .join('\n');
+
+  return `${summary}\n\n#### Comments outside the diff\n\n${list}`;
+}
+
+/**
+ * Post line-specific comments to GitHub PR as a single pull request review
+ * Each comment is anchored to its file, line and diff side; if GitHub refuses
+ * to anchor any of them (422), the review is re-posted with every finding
+ * listed in the review body instead
+ * Returns the comments anchored inline with their GitHub comment IDs
+ */
+async function postReviewToPR(
+  pullRequestUrl: string,
+  commitId: string,
+  summary: string,
   lineComments: LineComment[],
-  token: string
-): Promise<number> {
-  let successCount = 0;
+  token: string,
+  unanchored: LineComment[] = []
+): Promise<PostedCommentRecord[]> {
+  const reviewsUrl = `${pullRequestUrl}/reviews`;
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: 'application/vnd.github.v3+json',
+  };
 
-  for (const lineComment of lineComments) {
-    try {
-      const commentBody = `**${lineComment.file}** (line ${lineComment.line})\n\n${lineComment.comment}`;
-
-      await axios.post(
-        commentsUrl,
-        { body: commentBody },
-        {
-          headers: {
-            Authorization: `token ${token}`,
-            Accept: 'application/vnd.github.v3+json',
-          },
-        }
-      );
+  const sorted = sortBySeverity(lineComments);
+  const bodies = sorted.map((c) => formatFindingComment(c));
 
-      successCount++;
-      console.log(`[REVIEWER] Posted line comment for ${lineComment.file}:${lineComment.line}`);
-    } catch (error) {
-      console.error(`[REVIEWER] Failed to post line comment for ${lineComment.file}:${lineComment.line}:`, error);
+  try {
+    const response = await axios.post(
+      reviewsUrl,
+      {
+        commit_id: commitId,
+        body: buildReviewBody(summary, unanchored),
+        event: 'COMMENT',
+        comments: sorted.map((c, index) => ({
+          path: c.file,
+          line: c.line,
+          side: c.side || 'RIGHT',
+          ...(c.startLine && c.startLine < c.line
+            ? { start_line: c.startLine, start_side: c.side || 'RIGHT' }
+            : {}),
+          body: bodies[index],
+        })),
+      },
+      { headers }
+    );
+
+    console.log(`[REVIEWER] Posted review with ${lineComments.length} inline comment(s)`);
+
+    if (sorted.length === 0) {
+      return [];
     }
+
+    // The review response doesn't include comment IDs; match them back by path and body
+    const commentsResponse = await axios.get(`${reviewsUrl}/${response.data.id}/comments`, {
+      headers,
+      params: { per_page: 100 },
+    });
+
+    const unmatched = sorted.map((comment, index) => ({ comment, body: bodies[index] }));
+    const records: PostedCommentRecord[] = [];
+    for (const posted of commentsResponse.data as Array<{ id: number; node_id: string; path: string; body: string }>) {
+      const matchIndex = unmatched.findIndex((u) => u.comment.file === posted.path && u.body === posted.body);
+      if (matchIndex !== -1) {
+        const [match] = unmatched.splice(matchIndex, 1);
+        records.push({
+          comment: match.comment,
+          body: match.body,
+          githubCommentId: posted.id,
+          githubNodeId: posted.node_id,
+        });
+      }
+    }
+
+    return records;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : null;
+    if (status !== 422) {
+      throw error;
+    }
+
+    console.warn('[REVIEWER] GitHub could not anchor review comments, posting them in the review body');
   }
 
-  return successCount;
+  await axios.post(
+    reviewsUrl,
+    {
+      commit_id: commitId,
+      body: buildReviewBody(summary, [...lineComments, ...unanchored]),
+      event: 'COMMENT',
+    },
+    { headers }
+  );
+
+  return [];
 }
 
 /**
@@ -314,31 +323,24 @@ async function postCommentToPR(
 /**
  * Core review logic - processes a PR webhook event
  */
-export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
+export async function reviewPullRequest(
+  payload: any,
+  options: ReviewOptions = {}
+): Promise<ReviewMetrics> {
   const startTime = Date.now();
   let geminiCallDurationMs = 0;
   let githubApiDurationMs = 0;
   let lineCommentCount = 0;
+  let rejectedCommentCount = 0;
+  let passMetrics: PassMetrics[] = [];
   let success = false;
   let errorMessage: string | null = null;
+  let checkRun: { id: number; repositoryUrl: string; token: string } | null = null;
 
   try {
     const { action, pull_request, repository, installation } = payload;
 
-    console.log('[REVIEWER] Processing PR #' + pull_request.number);
-
-    // Only process opened or synchronized events
-    if (action !== 'opened' && action !== 'synchronize') {
-      console.log(`[REVIEWER] Ignoring action: ${action}`);
-      return {
-        latencyMs: Date.now() - startTime,
-        geminiCallDurationMs: 0,
-        githubApiDurationMs: 0,
-        lineCommentCount: 0,
-        success: true,
-        errorMessage: null,
-      };
-    }
+    console.log('[REVIEWER] Processing PR #' + pull_request.number + ' (' + action + ')');
 
     const githubRepoId = repository.id;
 
@@ -365,15 +367,74 @@ export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
       };
     }
 
-    // Fetch PR diff
+    // Apply the repository's trigger policy (event action, drafts, labels, authors, branches)
+    const trigger = options.manual ? null : evaluateTrigger(payload, dbRepository.configuration);
+    if (trigger && !trigger.review) {
+      console.log(`[REVIEWER] Skipping PR #${pull_request.number} (${trigger.rule}): ${trigger.reason}`);
+      return {
+        latencyMs: Date.now() - startTime,
+        geminiCallDurationMs: 0,
+        githubApiDurationMs: 0,
+        lineCommentCount: 0,
+        success: true,
+        errorMessage: null,
+      };
+    }
+
+    // Get token
+    const token = await getInstallationToken();
+
+    // Merge dashboard settings with .reviewbuddy.yml from the base branch
+    const { config, errors: configErrors } = await loadEffectiveConfig(
+      dbRepository.configuration,
+      repository.url,
+      pull_request.base.ref,
+      token
+    );
+
+    if (!config.enabled) {
+      console.log(`[REVIEWER] Reviewer disabled by ${REPO_CONFIG_PATH} for repository ${dbRepository.name}`);
+      return {
+        latencyMs: Date.now() - startTime,
+        geminiCallDurationMs: 0,
+        githubApiDurationMs: 0,
+        lineCommentCount: 0,
+        success: true,
+        errorMessage: null,
+      };
+    }
+
+    // Fetch PR diff (only the new commits if this PR was reviewed before)
     console.log('[REVIEWER] Fetching PR diff...');
-    const diffResponse = await axios.get(pull_request.diff_url, {
-      headers: { Accept: 'application/vnd.github.v3.diff' },
-    });
+    const prState = await getPullRequestState(dbRepository.id, pull_request.number);
+
+    if (prState?.paused && !options.manual) {
+      console.log(`[REVIEWER] Automatic reviews paused on PR #${pull_request.number}`);
+      return {
+        latencyMs: Date.now() - startTime,
+        geminiCallDurationMs: 0,
+        githubApiDurationMs: 0,
+        lineCommentCount: 0,
+        success: true,
+        errorMessage: null,
+      };
+    }
+
+    const onlyPaths = options.onlyPaths?.length ? options.onlyPaths : null;
+    // Shadow reviews always cover the whole PR since nothing they find is posted
+    const shadowMode = dbRepository.configuration?.shadowMode ?? false;
+    const { diff, range } = await fetchReviewDiff(
+      pull_request,
+      repository.url,
+      options.fullReview || onlyPaths || shadowMode ? null : prState?.lastReviewedSha ?? null,
+      token
+    );
 
-    const diff = diffResponse.data;
     if (!diff || diff.length === 0) {
       console.log('[REVIEWER] No diff content found');
+      if (!shadowMode) {
+        await recordReviewedSha(dbRepository.id, pull_request.number, range.headSha);
+      }
       return {
         latencyMs: Date.now() - startTime,
         geminiCallDurationMs: 0,
@@ -388,26 +449,64 @@ export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
 
     // Parse diff into file-level diffs for caching
     console.log('[REVIEWER] Parsing diff and computing file hashes...');
-    const diffFiles = parseAndHashDiff(diff);
+    let diffFiles = parseAndHashDiff(diff);
+
+    if (onlyPaths) {
+      const isRequested = picomatch(onlyPaths, { dot: true });
+      diffFiles = diffFiles.filter((file) => isRequested(file.path));
+      if (diffFiles.length === 0) {
+        console.log(`[REVIEWER] No changes to ${onlyPaths.join(', ')} in PR #${pull_request.number}`);
+        if (!shadowMode) {
+          await postCommentToPR(
+            pull_request.comments_url,
+            `### 🤖 AI Code Review\n\nThis pull request doesn't change ${onlyPaths.map((p) => `\`${p}\``).join(', ')}.`,
+            token
+          );
+        }
+        return {
+          latencyMs: Date.now() - startTime,
+          geminiCallDurationMs: 0,
+          githubApiDurationMs: 0,
+          lineCommentCount: 0,
+          success: true,
+          errorMessage: null,
+          filesTotalCount: 0,
+          fileCachedCount: 0,
+        };
+      }
+    }
+
+    // Report the review in the Checks tab; single-file and shadow reviews don't produce a check
+    if (!onlyPaths && !shadowMode) {
+      const checkRunId = await startCheckRun(repository.url, range.headSha, token);
+      checkRun = checkRunId !== null ? { id: checkRunId, repositoryUrl: repository.url, token } : null;
+    }
+
+    // Drop lockfiles, generated/vendored code, binaries and excluded paths before review
+    // Paths ignored on this PR (/ignore) are excluded; a requested file is reviewed even if it matches a default exclusion
+    const pathFilters: PathFilterConfig = {
+      includePaths: onlyPaths ?? config.includePaths,
+      excludePaths: [...config.excludePaths, ...(prState?.ignoredPaths ?? [])],
+      maxFileDiffKb: config.maxFileDiffKb,
+    };
+    const { included: reviewableFiles, skipped: skippedFiles } = filterDiffFiles(diffFiles, pathFilters);
     const filesTotalCount = diffFiles.length;
     let fileCachedCount = 0;
     let cachedLineComments: LineComment[] = [];
     let filesToReview: DiffFile[] = [];
 
     // Check cache for each file
-    for (const file of diffFiles) {
-      const cached = await getCachedReview(dbRepository.id, file.path, file.contentHash);
-      if (cached) {
+    for (const file of reviewableFiles) {
+      const cached = options.fullReview
+        ? null
+        : await getCachedReview(dbRepository.id, file.path, file.contentHash);
+      // Parse cached review (it's a JSON string with line comments)
+      // Entries that don't match the current findings schema are reviewed again
+      const validCache = cached ? parseCachedFindings(cached) : null;
+      if (validCache && validCache.errors.length === 0) {
         fileCachedCount++;
-        // Parse cached review (it's a JSON string with line comments)
-        try {
-          const parsed = JSON.parse(cached);
-          if (Array.isArray(parsed)) {
-            cachedLineComments.push(...parsed);
-          }
-        } catch {
-          // If cached review isn't JSON, skip it (shouldn't happen)
-        }
+        // Older entries may hold rule findings; rules are checked below instead
+        cachedLineComments.push(...validCache.findings.filter((finding) => !finding.rule));
       } else {
         filesToReview.push(file);
       }
@@ -415,85 +514,282 @@ export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
 
     console.log(`[REVIEWER] Cache status: ${fileCachedCount}/${filesTotalCount} files cached`);
 
-    // Get AI review
-    console.log('[REVIEWER] Calling Gemini API for review...');
-    let lineComments: LineComment[] = [...cachedLineComments];
-    let fallbackReview: string | null = null;
+    // Secrets and repository rules are checked on every file, cached or not, so rule changes apply at once
+    const deterministicFindings = validateLineComments(
+      runDeterministicChecks(reviewableFiles, config.customRules),
+      reviewableFiles.map((f) => f.fullDiff).join('\n')
+    ).anchored;
 
-    // Only call Gemini if there are files to review
+    // Get AI review
+    const provider = getProvider({
+      provider: config.llmProvider,
+      model: config.llmModel,
+    });
+    console.log(`[REVIEWER] Calling ${provider.name} (${provider.model}) for review...`);
+    const aiLineComments: LineComment[] = [...cachedLineComments];
+    const unanchoredComments: LineComment[] = [];
+    const fallbackReviews: string[] = [];
+    const failedPaths = new Set<string>();
+    // Files with any failed or text-only chunk are neither cached nor considered reviewed inline
+    const uncacheablePaths = new Set<string>();
+
+    // Only call the LLM if there are files to review
     if (filesToReview.length > 0) {
-      const diffToReview = filesToReview.map((f) => f.fullDiff).join('\n');
+      // Fetch the changed files at head so the model sees declarations outside the hunks
+      const contextBudget = getContextTokenBudget();
+      const contextSources: ReviewContextSources =
+        contextBudget > 0
+          ? await loadReviewContext(filesToReview, repository.url, range.headSha, token)
+          : { files: new Map(), imports: new Map() };
+
+      // Fill in the prompt template's variables for this PR
+      const customPrompt = config.customPrompt
+        ? renderPromptTemplate(config.customPrompt, {
+            repo: repository.full_name,
+            pr_title: pull_request.title,
+            pr_description: pull_request.body ?? '',
+            base_branch: pull_request.base.ref,
+            ...fileVariables(diffFiles.map((f) => f.path)),
+          })
+        : null;
+
+      const geminiStartTime = Date.now();
+      const validation = await reviewDiffFiles(filesToReview, {
+        customPrompt,
+        provider,
+        chunkTokenBudget: config.chunkTokenBudget,
+        contextFor: (files) => buildChunkContext(files, contextSources, contextBudget),
+        rulePacks: resolveRulePacks(config.disabledRulePacks, config.customRulePacks),
+        deterministicChecks: false,
+        passes: resolveReviewPasses(config.reviewPasses),
+      });
+      geminiCallDurationMs = Date.now() - geminiStartTime;
+
+      validation.failedPaths.forEach((path) => failedPaths.add(path));
+      validation.uncacheablePaths.forEach((path) => uncacheablePaths.add(path));
+      fallbackReviews.push(...validation.fallbackReviews);
+      unanchoredComments.push(...validation.unanchored);
+      rejectedCommentCount = validation.unanchored.length + validation.dropped.length;
+      passMetrics = validation.passMetrics;
+      if (rejectedCommentCount > 0) {
+        console.log(`[REVIEWER] Rejected ${rejectedCommentCount} comment(s) that don't match the diff`);
+      }
 
-      try {
-        const geminiStartTime = Date.now();
-        const newComments = await getAiReviewAsJson(
-          diffToReview,
-          dbRepository.configuration?.customPrompt
-        );
-        geminiCallDurationMs = Date.now() - geminiStartTime;
-
-        // Cache the reviews for all reviewed files (even if no issues found)
-        for (const file of filesToReview) {
-          const fileComments = newComments.filter((c) => c.file === file.path);
-          await cacheReview(
-            dbRepository.id,
-            file.path,
-            file.contentHash,
-            JSON.stringify(fileComments)  // Empty array if no issues
-          );
+      // Cache the reviews for all fully reviewed files (even if no issues found)
+      for (const file of filesToReview) {
+        if (uncacheablePaths.has(file.path)) {
+          continue;
         }
+        const fileComments = validation.anchored.filter((c) => c.file === file.path);
+        await cacheReview(
+          dbRepository.id,
+          file.path,
+          file.contentHash,
+          JSON.stringify(fileComments)  // Empty array if no issues
+        );
+      }
+
+      aiLineComments.push(...validation.anchored);
+      console.log(
+        '[REVIEWER] AI review received:',
+        validation.anchored.length,
+        'new line comments in',
+        geminiCallDurationMs,
+        'ms'
+      );
+    } else {
+      console.log('[REVIEWER] All files cached, no LLM call needed');
+    }
 
-        lineComments.push(...newComments);
-        console.log(
-          '[REVIEWER] AI review received as JSON:',
-          newComments.length,
-          'new line comments in',
-          geminiCallDurationMs,
-          'ms'
+    // AI findings that repeat a secret or rule finding are dropped
+    const lineComments = [
+      ...deterministicFindings,
+      ...dedupeAgainstRuleFindings(aiLineComments, deterministicFindings),
+    ];
+
+    const failureNote =
+      failedPaths.size > 0
+        ? `\n\n⚠️ The following file(s) could not be reviewed: ${[...failedPaths].map((p) => `\`${p}\``).join(', ')}`
+        : '';
+
+    const reviewFooter = `${formatConfigErrors(configErrors)}${formatSkippedFiles(skippedFiles)}\n\n<sub>${describeReviewRange(range)}</sub>`;
+
+    // Skip findings already posted on this PR unless the code around them changed
+    const contextHashFor = buildContextHasher(diff);
+    const { fresh: newLineComments, duplicates } = await filterAlreadyPosted(
+      dbRepository.id,
+      pull_request.number,
+      lineComments,
+      contextHashFor
+    );
+
+    // Open comments from earlier reviews on code this review didn't look at still apply
+    const isLineInDiff = buildDiffLineChecker(diff);
+    const unreviewedPaths = new Set([...uncacheablePaths, ...skippedFiles.map((s) => s.path)]);
+    const carriedOverFindings = onlyPaths
+      ? []
+      : await getCarriedOverFindings(
+          dbRepository.id,
+          pull_request.number,
+          lineComments,
+          (file, line) => !unreviewedPaths.has(file) && isLineInDiff(file, line),
+          contextHashFor
         );
-      } catch (error) {
-        geminiCallDurationMs = Date.now() - startTime;
-        console.error('[REVIEWER] Failed to get JSON review, attempting fallback:', error);
-        try {
-          const geminiStartTime = Date.now();
-          fallbackReview = await getAiReviewAsText(
-            diffToReview,
-            dbRepository.configuration?.customPrompt
-          );
-          geminiCallDurationMs = Date.now() - geminiStartTime;
-          console.log('[REVIEWER] Fallback AI review received in', geminiCallDurationMs, 'ms');
-        } catch (fallbackError) {
-          throw fallbackError;
+
+    // The walkthrough describes the whole PR, even when only new commits were reviewed
+    // A single-file review (/review <path>) leaves it as it is
+    let walkthroughFiles = diffFiles;
+    let walkthroughSkipped = skippedFiles;
+    let walkthrough: Walkthrough | null = null;
+    if (!onlyPaths) {
+      try {
+        if (range.baseSha) {
+          const { diff: fullDiff } = await fetchReviewDiff(pull_request, repository.url, null, token);
+          walkthroughFiles = parseAndHashDiff(fullDiff);
+          walkthroughSkipped = filterDiffFiles(walkthroughFiles, pathFilters).skipped;
         }
+        const commitMessages = await fetchCommitMessages(pull_request.url, token);
+        const skippedPaths = new Set(walkthroughSkipped.map((s) => s.path));
+
+        const walkthroughStartTime = Date.now();
+        walkthrough = await generateWalkthrough(
+          { title: pull_request.title, body: pull_request.body, commitMessages },
+          walkthroughFiles.filter((f) => !skippedPaths.has(f.path)),
+          provider
+        );
+        geminiCallDurationMs += Date.now() - walkthroughStartTime;
+      } catch (error) {
+        console.error('[REVIEWER] Could not prepare walkthrough, posting file table only:', error);
       }
-    } else {
-      console.log('[REVIEWER] All files cached, no Gemini API call needed');
     }
 
-    // Get token
-    const token = await getInstallationToken();
+    // Render everything the review would post
+    const openFindings = [...newLineComments, ...duplicates, ...unanchoredComments];
+    let reviewSummary: string | null = null;
+    if (newLineComments.length > 0 || unanchoredComments.length > 0) {
+      const allFindings = [...newLineComments, ...unanchoredComments];
+      const duplicateNote =
+        duplicates.length > 0 ? `\n\n${duplicates.length} previously reported finding(s) still apply.` : '';
+      reviewSummary = `### 🤖 AI Code Review Complete\n\nFound ${allFindings.length} line(s) that may need attention.\n\n${formatSeverityCounts(allFindings)}${duplicateNote}${failureNote}${reviewFooter}`;
+    }
+    const fallbackBodies =
+      fallbackReviews.length > 0 ? [`${fallbackReviews.join('\n\n---\n\n')}${reviewFooter}`] : [];
+    const walkthroughBody = onlyPaths
+      ? null
+      : formatWalkthrough(walkthrough, walkthroughFiles, walkthroughSkipped, {
+          findings: [...openFindings, ...carriedOverFindings],
+          notes: `${failureNote}${reviewFooter}`,
+        });
 
     // Post comments
-    console.log('[REVIEWER] Posting comments to PR...');
     const githubStartTime = Date.now();
 
-    if (lineComments.length > 0) {
-      lineCommentCount = await postLineCommentsToPR(pull_request.comments_url, lineComments, token);
+    if (shadowMode) {
+      // Shadow mode: store the would-be review for the dashboard; GitHub and PR state are left untouched
+      await saveShadowReview({
+        repositoryId: dbRepository.id,
+        prNumber: pull_request.number,
+        headSha: pull_request.head.sha,
+        repositoryUrl: repository.url,
+        pullRequestUrl: pull_request.url,
+        commentsUrl: pull_request.comments_url,
+        summary: reviewSummary,
+        comments: newLineComments.map((comment) => ({
+          comment,
+          body: formatFindingComment(comment),
+          contextHash: contextHashFor(comment),
+        })),
+        unanchored: unanchoredComments,
+        fallbackReviews: fallbackBodies,
+        walkthrough: walkthroughBody,
+      });
+      githubApiDurationMs = Date.now() - githubStartTime;
+    } else {
+      console.log('[REVIEWER] Posting comments to PR...');
+
+      if (reviewSummary) {
+        const posted = await postReviewToPR(
+          pull_request.url,
+          pull_request.head.sha,
+          reviewSummary,
+          newLineComments,
+          token,
+          unanchoredComments
+        );
+        await recordPostedComments(dbRepository.id, pull_request.number, posted, contextHashFor);
+        lineCommentCount = newLineComments.length;
+      }
 
-      if (lineCommentCount > 0) {
-        const summary = `### 🤖 AI Code Review Complete\n\nFound and commented on ${lineCommentCount} line(s) that may need attention.`;
-        await postCommentToPR(pull_request.comments_url, summary, token);
+      for (const fallbackBody of fallbackBodies) {
+        await postCommentToPR(pull_request.comments_url, fallbackBody, token);
+        lineCommentCount += 1;
       }
-    } else if (fallbackReview) {
-      await postCommentToPR(pull_request.comments_url, fallbackReview, token);
-      lineCommentCount = 1;
-    } else {
-      // No issues found - post positive feedback
-      const allGoodMessage = `### 🎉 AI Code Review Complete\n\n✅ **All Good!** No issues found. Your code looks great!`;
-      await postCommentToPR(pull_request.comments_url, allGoodMessage, token);
-    }
 
-    githubApiDurationMs = Date.now() - githubStartTime;
+      if (onlyPaths) {
+        // Single-file review: report an empty result here, leave the walkthrough, older comments and PR state alone
+        if (newLineComments.length === 0 && unanchoredComments.length === 0 && fallbackReviews.length === 0) {
+          const message =
+            duplicates.length > 0
+              ? `No new findings. ${duplicates.length} previously reported finding(s) still apply.`
+              : 'No issues found.';
+          await postCommentToPR(
+            pull_request.comments_url,
+            `### 🤖 AI Code Review Complete\n\n${message}${failureNote}${reviewFooter}`,
+            token
+          );
+        }
+        githubApiDurationMs = Date.now() - githubStartTime;
+      } else {
+        // One walkthrough per PR, edited in place; it also reports reviews with no new findings
+        try {
+          if (walkthroughBody) {
+            const walkthroughCommentId = await upsertWalkthroughComment(
+              repository.url,
+              pull_request.comments_url,
+              prState?.walkthroughCommentId ?? null,
+              walkthroughBody,
+              token
+            );
+            await recordWalkthroughCommentId(dbRepository.id, pull_request.number, walkthroughCommentId);
+          }
+        } catch (error) {
+          console.error('[REVIEWER] Failed to post walkthrough:', error);
+        }
+
+        if (checkRun) {
+          const policy = isCheckConclusionPolicy(config.checkConclusionPolicy)
+            ? config.checkConclusionPolicy
+            : DEFAULT_CHECK_CONCLUSION_POLICY;
+          // An incremental review must not pass the check while a blocker elsewhere in the PR is still open
+          const checkFindings = [...openFindings, ...carriedOverFindings];
+          await completeCheckRun(
+            repository.url,
+            checkRun.id,
+            checkFindings,
+            policy,
+            `${formatSeverityCounts(checkFindings) || 'No issues found.'}${failureNote}${reviewFooter}`,
+            token
+          );
+        }
+
+        // Resolve earlier bot comments whose findings no longer apply
+        await resolveOutdatedComments({
+          repositoryId: dbRepository.id,
+          prNumber: pull_request.number,
+          repositoryFullName: repository.full_name,
+          pullRequestUrl: pull_request.url,
+          currentFindings: lineComments,
+          skippedPaths: unreviewedPaths,
+          isLineInDiff,
+          contextHashFor,
+          token,
+        });
+
+        githubApiDurationMs = Date.now() - githubStartTime;
+
+        await recordReviewedSha(dbRepository.id, pull_request.number, range.headSha);
+      }
+    }
 
     success = true;
     console.log('[REVIEWER] Review completed successfully');
@@ -507,11 +803,20 @@ export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
       errorMessage: null,
       filesTotalCount,
       fileCachedCount,
+      rejectedCommentCount,
+      headSha: range.headSha,
+      findings: openFindings,
+      promptVersionId: config.promptVersionId,
+      passMetrics,
     };
   } catch (error) {
     errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('[REVIEWER] Review failed:', errorMessage);
 
+    if (checkRun) {
+      await abortCheckRun(checkRun.repositoryUrl, checkRun.id, errorMessage, checkRun.token);
+    }
+
     return {
       latencyMs: Date.now() - startTime,
       geminiCallDurationMs,
@@ -521,8 +826,9 @@ export async function reviewPullRequest(payload: any): Promise<ReviewMetrics> {
       errorMessage,
       filesTotalCount: 0,
       fileCachedCount: 0,
+      rejectedCommentCount,
     };
   }
 }
 
-export { getAiReviewAsJson, getAiReviewAsText, getInstallationToken, postLineCommentsToPR, postCommentToPR };
+export { getAiReviewAsJson, getAiReviewAsText, getInstallationToken, postReviewToPR, postCommentToPR };
@@ -0,0 +1,126 @@
+import { prisma } from './prisma';
+
+/**
+ * Get the stored state for a pull request, or null if it has never been reviewed
+ */
+export async function getPullRequestState(repositoryId: number, prNumber: number) {
+  try {
+    return await prisma.pullRequestState.findUnique({
+      where: {
+        repositoryId_prNumber: { repositoryId, prNumber },
+      },
+    });
+  } catch (error) {
+    console.error('[PR-STATE] Error retrieving pull request state:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the head SHA of a completed review so later pushes can be reviewed incrementally
+ */
+export async function recordReviewedSha(
+  repositoryId: number,
+  prNumber: number,
+  headSha: string
+): Promise<boolean> {
+  try {
+    await prisma.pullRequestState.upsert({
+      where: {
+        repositoryId_prNumber: { repositoryId, prNumber },
+      },
+      update: {
+        lastReviewedSha: headSha,
+      },
+      create: {
+        repositoryId,
+        prNumber,
+        lastReviewedSha: headSha,
+      },
+    });
+
+    console.log(`[PR-STATE] PR #${prNumber} reviewed at ${headSha.substring(0, 7)}`);
+    return true;
+  } catch (error) {
+    console.error('[PR-STATE] Error recording reviewed SHA:', error);
+    return false;
+  }
+}
+
+/**
+ * Remember the walkthrough comment so later pushes edit it instead of posting a new one
+ */
+export async function recordWalkthroughCommentId(
+  repositoryId: number,
+  prNumber: number,
+  commentId: number
+): Promise<boolean> {
+  try {
+    await prisma.pullRequestState.upsert({
+      where: {
+        repositoryId_prNumber: { repositoryId, prNumber },
+      },
+      update: {
+        walkthroughCommentId: commentId,
+      },
+      create: {
+        repositoryId,
+        prNumber,
+        walkthroughCommentId: commentId,
+      },
+    });
+    return true;
+  } catch (error) {
+    console.error('[PR-STATE] Error recording walkthrough comment ID:', error);
+    return false;
+  }
+}
+
+/**
+ * Pause or resume automatic reviews on a pull request (/pause, /resume)
+ */
+export async function setPullRequestPaused(
+  repositoryId: number,
+  prNumber: number,
+  paused: boolean
+): Promise<void> {
+  await prisma.pullRequestState.upsert({
+    where: {
+      repositoryId_prNumber: { repositoryId, prNumber },
+    },
+    update: { paused },
+    create: { repositoryId, prNumber, paused },
+  });
+
+  console.log(`[PR-STATE] PR #${prNumber} ${paused ? 'paused' : 'resumed'}`);
+}
+
+/**
+ * Add a glob to the paths skipped on a pull request (/ignore)
+ * Later reviews treat matching files as not reviewed, so the bot's open
+ * comments on them are left as they are rather than resolved
+ * Returns the full list of ignored globs
+ */
+export async function addIgnoredPath(
+  repositoryId: number,
+  prNumber: number,
+  glob: string
+): Promise<string[]> {
+  const state = await getPullRequestState(repositoryId, prNumber);
+  const ignoredPaths: string[] = state?.ignoredPaths ?? [];
+  if (ignoredPaths.includes(glob)) {
+    return ignoredPaths;
+  }
+
+  const updated = [...ignoredPaths, glob];
+  await prisma.pullRequestState.upsert({
+    where: {
+      repositoryId_prNumber: { repositoryId, prNumber },
+    },
+    update: { ignoredPaths: updated },
+    create: { repositoryId, prNumber, ignoredPaths: updated },
+  });
+
+  console.log(`[PR-STATE] PR #${prNumber} now ignores ${glob}`);
+  return updated;
+}
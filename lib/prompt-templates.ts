@@ -0,0 +1,94 @@
+/**
+ * Prompt templates
+ * Custom prompts can reference review variables as {{name}}; templates are
+ * checked when saved (dashboard) or loaded (.reviewbuddy.yml) and rendered per review
+ *
+ *   {{repo}}            owner/name of the repository
+ *   {{pr_title}}        pull request title
+ *   {{pr_description}}  pull request body
+ *   {{base_branch}}     branch the pull request merges into
+ *   {{languages}}       languages of the changed files, e.g. "TypeScript, Python"
+ *   {{changed_files}}   changed file paths, one per line
+ */
+
+import { detectPathLanguage } from './languages';
+
+export const PROMPT_VARIABLES = [
+  'repo',
+  'pr_title',
+  'pr_description',
+  'base_branch',
+  'languages',
+  'changed_files',
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+// Longest template accepted, in characters
+export const MAX_PROMPT_TEMPLATE_LENGTH = 20000;
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Check a template for unknown variables and unbalanced braces
+ * Returns the problems; an empty array means the template can be saved
+ */
+export function validatePromptTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  if (template.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+    errors.push(`The prompt must be at most ${MAX_PROMPT_TEMPLATE_LENGTH} characters`);
+  }
+
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  unknown.forEach((name) =>
+    errors.push(`Unknown variable {{${name}}} (available: ${PROMPT_VARIABLES.map((v) => `{{${v}}}`).join(', ')})`)
+  );
+
+  const remainder = template.replace(VARIABLE_PATTERN, '');
+  if (remainder.includes('{{') || remainder.includes('}}')) {
+    errors.push('Unbalanced "{{" or "}}": variables are written as {{name}}');
+  }
+
+  return errors;
+}
+
+/**
+ * Substitute variables into a template; variables without a value render empty
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    (PROMPT_VARIABLES as readonly string[]).includes(name) ? variables[name as PromptVariable] ?? '' : placeholder
+  );
+}
+
+/**
+ * Languages of the given paths, most files first
+ */
+export function detectLanguages(paths: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const path of paths) {
+    const language = detectPathLanguage(path);
+    if (language) {
+      counts.set(language, (counts.get(language) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([language]) => language);
+}
+
+/**
+ * Variables describing a review's changed files
+ */
+export function fileVariables(paths: string[]): PromptVariables {
+  return {
+    languages: detectLanguages(paths).join(', '),
+    changed_files: paths.join('\n'),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Prompt version history
+ * Every change to a repository's custom prompt is stored as a new numbered
+ * version with its author. Rolling back saves the old template again as the
+ * newest version, so the history itself is never rewritten
+ */
+
+import { prisma } from './prisma';
+
+/**
+ * List a repository's prompt versions, newest first, with their authors
+ */
+export async function getPromptVersions(repositoryId: number) {
+  return prisma.promptVersion.findMany({
+    where: { repositoryId },
+    orderBy: { version: 'desc' },
+    include: { author: { select: { name: true, email: true } } },
+  });
+}
+
+// Prisma error codes of a concurrent save taking the same version number
+const VERSION_CONFLICT_CODES = ['P2002', 'P2034'];
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Store a template as the repository's next prompt version
+ * The number is read and written in one serializable transaction, retried if a
+ * concurrent save took it. The first save also stores a prompt set before
+ * versions were kept as version 1, so it can be rolled back to
+ */
+export async function recordPromptVersion(
+  repositoryId: number,
+  template: string,
+  authorId: string | null,
+  restoredFrom: number | null = null
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const promptVersion = await prisma.$transaction(
+        async (tx) => {
+          const latest = await tx.promptVersion.findFirst({
+            where: { repositoryId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+
+          let version = (latest?.version ?? 0) + 1;
+          if (!latest) {
+            const config = await tx.repositoryConfiguration.findUnique({
+              where: { repositoryId },
+              select: { customPrompt: true },
+            });
+            if (config?.customPrompt) {
+              await tx.promptVersion.create({
+                data: { repositoryId, version, template: config.customPrompt, authorId: null },
+              });
+              version++;
+            }
+          }
+
+          return tx.promptVersion.create({
+            data: {
+              repositoryId,
+              version,
+              template,
+              authorId,
+              restoredFrom,
+            },
+          });
+        },
+        { isolationLevel: 'Serializable' }
+      );
+
+      console.log(
+        `[PROMPT] Saved prompt v${promptVersion.version} for repository ${repositoryId}${
+          restoredFrom !== null ? ` (restored from v${restoredFrom})` : ''
+        }`
+      );
+      return promptVersion;
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (attempt >= MAX_SAVE_ATTEMPTS || !code || !VERSION_CONFLICT_CODES.includes(code)) {
+        throw error;
+      }
+      console.warn(`[PROMPT] Version number of repository ${repositoryId} taken by a concurrent save, retrying`);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * In-repository configuration (.reviewbuddy.yml)
+ * The file is read from the PR's base branch, so changes to review rules are
+ * themselves reviewed before they take effect.
+ *
+ * Precedence when merging with the dashboard (RepositoryConfiguration):
+ * - Disabling the reviewer in the dashboard always wins; the file can't re-enable it
+ * - Settings present in the file override the dashboard values
+ * - Exclude paths, disabled rule packs, custom rule packs and rules from both sources are combined
+ * - An invalid file is ignored entirely and the errors are reported on the PR
+ */
+
+import axios from 'axios';
+import { parse } from 'yaml';
+import { isProviderName } from './llm';
+import { isCheckConclusionPolicy, CHECK_CONCLUSION_POLICIES } from './check-runs';
+import { validatePromptTemplate } from './prompt-templates';
+import { validateCustomRulePacks, validateDisabledRulePacks, CustomRulePack } from './rule-packs';
+import { validateCustomRules, CustomRule } from './custom-rules';
+import { isReviewPassId, REVIEW_PASS_IDS } from './review-passes';
+
+export const REPO_CONFIG_PATH = '.reviewbuddy.yml';
+
+export interface RepoFileConfig {
+  enabled?: boolean;
+  provider?: string;
+  model?: string;
+  prompt?: string;
+  chunkTokenBudget?: number;
+  maxFileDiffKb?: number;
+  includePaths?: string[];
+  excludePaths?: string[];
+  checkConclusion?: string;
+  disabledRulePacks?: string[];
+  customRulePacks?: CustomRulePack[];
+  customRules?: CustomRule[];
+  reviewPasses?: string[];
+}
+
+// The subset of RepositoryConfiguration the reviewer reads
+export interface DashboardConfig {
+  enabled?: boolean;
+  customPrompt?: string | null;
+  promptVersionId?: number | null;
+  llmProvider?: string | null;
+  llmModel?: string | null;
+  chunkTokenBudget?: number | null;
+  includePaths?: string[];
+  excludePaths?: string[];
+  maxFileDiffKb?: number | null;
+  checkConclusionPolicy?: string | null;
+  disabledRulePacks?: string[];
+  customRulePacks?: unknown; // JSON list of CustomRulePack, validated when saved
+  customRules?: unknown; // JSON list of CustomRule, validated when saved
+  reviewPasses?: string[];
+}
+
+export interface EffectiveConfig {
+  enabled: boolean;
+  customPrompt: string | null;
+  promptVersionId: number | null; // Dashboard prompt version in use (null when the file sets the prompt)
+  llmProvider: string | null;
+  llmModel: string | null;
+  chunkTokenBudget: number | null;
+  includePaths: string[];
+  excludePaths: string[];
+  maxFileDiffKb: number | null;
+  checkConclusionPolicy: string | null;
+  disabledRulePacks: string[];
+  customRulePacks: CustomRulePack[];
+  customRules: CustomRule[];
+  reviewPasses: string[];
+}
+
+const TOP_LEVEL_KEYS = [
+  'enabled',
+  'provider',
+  'model',
+  'prompt',
+  'chunk_token_budget',
+  'max_file_diff_kb',
+  'check_conclusion',
+  'paths',
+  'rule_packs',
+  'rules',
+  'passes',
+];
+
+/**
+ * Validate parsed YAML against the .reviewbuddy.yml schema
+ */
+function validateRepoConfig(raw: unknown): { config: RepoFileConfig | null; errors: string[] } {
+  if (raw === null || raw === undefined) {
+    return { config: {}, errors: [] };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config: null, errors: ['The file must contain a mapping of settings'] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const config: RepoFileConfig = {};
+
+  for (const key of Object.keys(data)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      errors.push(`Unknown key "${key}"`);
+    }
+  }
+
+  if (data.enabled !== undefined) {
+    if (typeof data.enabled === 'boolean') config.enabled = data.enabled;
+    else errors.push('"enabled" must be true or false');
+  }
+
+  if (data.provider !== undefined) {
+    if (isProviderName(data.provider)) config.provider = data.provider;
+    else errors.push(`"provider" must be one of gemini, openai, anthropic, fake`);
+  }
+
+  for (const [key, field] of [['model', 'model'], ['prompt', 'prompt']] as const) {
+    if (data[key] !== undefined) {
+      if (typeof data[key] === 'string' && data[key].trim() !== '') config[field] = data[key];
+      else errors.push(`"${key}" must be a non-empty string`);
+    }
+  }
+
+  if (config.prompt !== undefined) {
+    const templateErrors = validatePromptTemplate(config.prompt);
+    if (templateErrors.length > 0) {
+      errors.push(...templateErrors.map((e) => `"prompt": ${e}`));
+    }
+  }
+
+  if (data.check_conclusion !== undefined) {
+    if (isCheckConclusionPolicy(data.check_conclusion)) config.checkConclusion = data.check_conclusion;
+    else errors.push(`"check_conclusion" must be one of ${CHECK_CONCLUSION_POLICIES.join(', ')}`);
+  }
+
+  const integerFields = [
+    ['chunk_token_budget', 'chunkTokenBudget', 1000],
+    ['max_file_diff_kb', 'maxFileDiffKb', 1],
+  ] as const;
+  for (const [key, field, min] of integerFields) {
+    if (data[key] !== undefined) {
+      const value = data[key];
+      if (typeof value === 'number' && Number.isInteger(value) && value >= min) config[field] = value;
+      else errors.push(`"${key}" must be an integer of at least ${min}`);
+    }
+  }
+
+  if (data.paths !== undefined) {
+    if (!data.paths || typeof data.paths !== 'object' || Array.isArray(data.paths)) {
+      errors.push('"paths" must be a mapping with "include" and/or "exclude" lists');
+    } else {
+      const paths = data.paths as Record<string, unknown>;
+      for (const key of Object.keys(paths)) {
+        if (key !== 'include' && key !== 'exclude') {
+          errors.push(`Unknown key "paths.${key}"`);
+        }
+      }
+      for (const [key, field] of [['include', 'includePaths'], ['exclude', 'excludePaths']] as const) {
+        const value = paths[key];
+        if (value === undefined) continue;
+        if (Array.isArray(value) && value.every((v) => typeof v === 'string')) config[field] = value;
+        else errors.push(`"paths.${key}" must be a list of glob strings`);
+      }
+    }
+  }
+
+  if (data.rule_packs !== undefined) {
+    if (!data.rule_packs || typeof data.rule_packs !== 'object' || Array.isArray(data.rule_packs)) {
+      errors.push('"rule_packs" must be a mapping with "disable" and/or "custom" lists');
+    } else {
+      const rulePacks = data.rule_packs as Record<string, unknown>;
+      for (const key of Object.keys(rulePacks)) {
+        if (key !== 'disable' && key !== 'custom') {
+          errors.push(`Unknown key "rule_packs.${key}"`);
+        }
+      }
+      if (rulePacks.disable !== undefined) {
+        const packErrors = validateDisabledRulePacks(rulePacks.disable);
+        if (packErrors.length === 0) config.disabledRulePacks = rulePacks.disable as string[];
+        else errors.push(...packErrors.map((e) => `"rule_packs.disable": ${e}`));
+      }
+      if (rulePacks.custom !== undefined) {
+        const packErrors = validateCustomRulePacks(rulePacks.custom);
+        if (packErrors.length === 0) config.customRulePacks = rulePacks.custom as CustomRulePack[];
+        else errors.push(...packErrors.map((e) => `"rule_packs.custom": ${e}`));
+      }
+    }
+  }
+
+  if (data.passes !== undefined) {
+    if (Array.isArray(data.passes) && data.passes.every(isReviewPassId)) config.reviewPasses = data.passes;
+    else errors.push(`"passes" must be a list of ${REVIEW_PASS_IDS.join(', ')}`);
+  }
+
+  if (data.rules !== undefined) {
+    const ruleErrors = validateCustomRules(data.rules);
+    if (ruleErrors.length === 0) config.customRules = data.rules as CustomRule[];
+    else errors.push(...ruleErrors.map((e) => `"rules": ${e}`));
+  }
+
+  return errors.length > 0 ? { config: null, errors } : { config, errors };
+}
+
+/**
+ * Parse and validate the contents of a .reviewbuddy.yml file
+ */
+export function parseRepoConfig(text: string): { config: RepoFileConfig | null; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { config: null, errors: [`Invalid YAML: ${reason}`] };
+  }
+
+  return validateRepoConfig(raw);
+}
+
+/**
+ * Fetch .reviewbuddy.yml from a branch, or null if the repository doesn't have one
+ */
+export async function fetchRepoConfigFile(
+  repositoryUrl: string,
+  ref: string,
+  token: string
+): Promise<string | null> {
+  try {
+    const response = await axios.get(`${repositoryUrl}/contents/${REPO_CONFIG_PATH}`, {
+      params: { ref },
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.raw+json',
+      },
+      responseType: 'text',
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Merge the dashboard configuration with the repository file (see precedence above)
+ */
+export function mergeConfig(
+  dashboard: DashboardConfig | null | undefined,
+  file: RepoFileConfig | null
+): EffectiveConfig {
+  const dashboardEnabled = dashboard?.enabled ?? true;
+
+  return {
+    enabled: dashboardEnabled && (file?.enabled ?? true),
+    customPrompt: file?.prompt ?? dashboard?.customPrompt ?? null,
+    promptVersionId: file?.prompt ? null : dashboard?.promptVersionId ?? null,
+    llmProvider: file?.provider ?? dashboard?.llmProvider ?? null,
+    // A file that switches provider shouldn't inherit the dashboard's model for another provider
+    llmModel: file?.model ?? (file?.provider ? null : dashboard?.llmModel ?? null),
+    chunkTokenBudget: file?.chunkTokenBudget ?? dashboard?.chunkTokenBudget ?? null,
+    includePaths: file?.includePaths ?? dashboard?.includePaths ?? [],
+    excludePaths: [...(dashboard?.excludePaths ?? []), ...(file?.excludePaths ?? [])],
+    maxFileDiffKb: file?.maxFileDiffKb ?? dashboard?.maxFileDiffKb ?? null,
+    checkConclusionPolicy: file?.checkConclusion ?? dashboard?.checkConclusionPolicy ?? null,
+    reviewPasses: file?.reviewPasses ?? dashboard?.reviewPasses ?? [],
+    disabledRulePacks: [...new Set([...(dashboard?.disabledRulePacks ?? []), ...(file?.disabledRulePacks ?? [])])],
+    customRulePacks: [
+      ...(Array.isArray(dashboard?.customRulePacks) ? (dashboard.customRulePacks as CustomRulePack[]) : []),
+      ...(file?.customRulePacks ?? []),
+    ],
+    customRules: [
+      ...(Array.isArray(dashboard?.customRules) ? (dashboard.customRules as CustomRule[]) : []),
+      ...(file?.customRules ?? []),
+    ],
+  };
+}
+
+/**
+ * Load the effective configuration for a review
+ * Returns any validation errors so they can be reported on the PR
+ */
+export async function loadEffectiveConfig(
+  dashboard: DashboardConfig | null | undefined,
+  repositoryUrl: string,
+  baseRef: string,
+  token: string
+): Promise<{ config: EffectiveConfig; errors: string[] }> {
+  let text: string | null = null;
+  try {
+    text = await fetchRepoConfigFile(repositoryUrl, baseRef, token);
+  } catch (error) {
+    console.error(`[CONFIG] Failed to fetch ${REPO_CONFIG_PATH}, using dashboard settings:`, error);
+  }
+
+  if (text === null) {
+    return { config: mergeConfig(dashboard, null), errors: [] };
+  }
+
+  const { config: fileConfig, errors } = parseRepoConfig(text);
+  if (errors.length > 0) {
+    console.log(`[CONFIG] ${REPO_CONFIG_PATH} on ${baseRef} is invalid: ${errors.join('; ')}`);
+  } else {
+    console.log(`[CONFIG] Loaded ${REPO_CONFIG_PATH} from ${baseRef}`);
+  }
+
+  return { config: mergeConfig(dashboard, fileConfig), errors };
+}
+
+/**
+ * Render validation errors for the summary comment
+ */
+export function formatConfigErrors(errors: string[]): string {
+  if (errors.length === 0) {
+    return '';
+  }
+
+  const list = errors.map((e) => `- ${e}`).join('\n');
+  return `\n\n⚠️ \`${REPO_CONFIG_PATH}\` was ignored because it is invalid:\n\n${list}`;
+}
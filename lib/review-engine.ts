@@ -0,0 +1,370 @@
+/**
+ * Review engine: the part of a review that needs neither the database nor GitHub
+ * Parses a unified diff into files, reviews them in token-budgeted chunks and
+ * checks the findings against the diff. Used by the webhook reviewer and the CLI
+ */
+
+import { hashFileContent } from './hash';
+import { validateLineComments, LineValidationResult } from './line-validator';
+import { getProvider, LLMProvider } from './llm';
+import { formatContextForPrompt, DEFAULT_CONTEXT_TOKEN_BUDGET } from './code-context';
+import {
+  chunkDiffFiles,
+  mapWithConcurrency,
+  DiffChunk,
+  DEFAULT_CHUNK_TOKEN_BUDGET,
+  DEFAULT_CHUNK_CONCURRENCY,
+} from './chunker';
+import { FINDINGS_FORMAT_INSTRUCTIONS, FINDINGS_JSON_SCHEMA, parseFindingsResponse, sortBySeverity } from './findings';
+import { redactPrompt, scanDiffFileForSecrets, REDACTION_MARKER } from './secret-scanner';
+import { runCustomRules, dedupeAgainstRuleFindings, CustomRule } from './custom-rules';
+import { mergePassFindings, ReviewPass, PassMetrics } from './review-passes';
+import { BUILT_IN_RULE_PACKS, formatRulePacksForPrompt, groupFilesByLanguage, RulePack } from './rule-packs';
+import type { DiffFile, LineComment } from './pr-reviewer';
+
+interface ChunkReviewResult {
+  comments: LineComment[];
+  fallbackReview: string | null;
+  failed: boolean;
+}
+
+/**
+ * Parse diff into file-level diffs and compute content hashes
+ * Returns array of files with their diffs and content hashes
+ */
+export function parseAndHashDiff(fullDiff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = fullDiff.split('\n');
+
+  let currentFile: { path: string; lines: string[] } | null = null;
+  const fileMap: { [path: string]: string[] } = {};
+
+  for (const line of lines) {
+    // Detect file header (e.g., "--- a/path/to/file" or "diff --git a/path b/path")
+    if (line.startsWith('diff --git a/') || line.startsWith('--- a/')) {
+      if (currentFile && currentFile.lines.length > 0) {
+        fileMap[currentFile.path] = currentFile.lines;
+      }
+
+      // Extract file path from diff header
+      let path = '';
+      if (line.startsWith('diff --git a/')) {
+        const match = line.match(/diff --git a\/(.+) b\/(.+)$/);
+        path = match ? match[2] : line;
+      } else if (line.startsWith('--- a/')) {
+        path = line.substring(6); // Remove "--- a/"
+      }
+
+      currentFile = { path: path.trim(), lines: [] };
+    }
+
+    // A renamed file is reviewed under its new name, which the "+++ b/" header holds even if it contains " b/"
+    if (currentFile && line.startsWith('+++ b/') && !currentFile.lines.some((l) => l.startsWith('@@'))) {
+      currentFile.path = line.substring(6).trim();
+    }
+
+    if (currentFile) {
+      currentFile.lines.push(line);
+    }
+  }
+
+  // Don't forget the last file
+  if (currentFile && currentFile.lines.length > 0) {
+    fileMap[currentFile.path] = currentFile.lines;
+  }
+
+  // Create DiffFile objects with hashes
+  for (const [path, fileLines] of Object.entries(fileMap)) {
+    const fullDiff = fileLines.join('\n');
+    const contentHash = hashFileContent(fullDiff);
+    files.push({
+      path,
+      contentHash,
+      fullDiff,
+      lines: fileLines,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Get AI review as JSON (structured line-specific findings)
+ * Uses the provider's structured-output mode; output that fails strict
+ * validation gets one repair re-prompt before the caller falls back to text
+ */
+export async function getAiReviewAsJson(
+  diff: string,
+  customPrompt?: string | null,
+  provider: LLMProvider = getProvider(),
+  context: string = '',
+  instructions: string = ''
+): Promise<LineComment[]> {
+  const contextSection = formatContextForPrompt(context);
+  const prompt = customPrompt
+    ? `${customPrompt}\n\nReview this diff.
+${FINDINGS_FORMAT_INSTRUCTIONS}
+Focus on actionable feedback. Include only lines that need improvement.
+
+${instructions}${contextSection}Diff:
+\`\`\`diff
+${diff}
+\`\`\``
+    : `You are a senior software engineer providing line-by-line code review.
+Review the diff.
+${FINDINGS_FORMAT_INSTRUCTIONS}
+Focus on: potential bugs, code clarity, best practices, security issues.
+Include only lines that need improvement.
+
+${instructions}${contextSection}Diff:
+\`\`\`diff
+${diff}
+\`\`\``;
+
+  const options = { responseFormat: 'json' as const, jsonSchema: FINDINGS_JSON_SCHEMA };
+  // Secrets never leave the process; the scanner reports them separately
+  const responseText = await provider.generate(redactPrompt(prompt), options);
+
+  const result = parseFindingsResponse(responseText);
+  if (result.errors.length === 0) {
+    return result.findings;
+  }
+
+  console.log(
+    `[REVIEWER] Invalid findings from ${provider.name} (${result.errors.length} error(s)), re-prompting for repair`
+  );
+
+  const repairPrompt = `${prompt}
+
+Your previous response did not match the required format:
+${result.errors.slice(0, 10).map((e) => `- ${e}`).join('\n')}
+
+Previous response:
+${responseText}
+
+${FINDINGS_FORMAT_INSTRUCTIONS}`;
+
+  const repairedText = await provider.generate(redactPrompt(repairPrompt), options);
+  const repaired = parseFindingsResponse(repairedText);
+  if (repaired.errors.length === 0) {
+    return repaired.findings;
+  }
+
+  throw new Error(
+    `Invalid findings from ${provider.name} after repair: ${repaired.errors.slice(0, 3).join('; ')}`
+  );
+}
+
+/**
+ * Get single comment review (fallback)
+ */
+export async function getAiReviewAsText(
+  diff: string,
+  customPrompt?: string | null,
+  provider: LLMProvider = getProvider(),
+  context: string = '',
+  instructions: string = ''
+): Promise<string> {
+  const contextSection = formatContextForPrompt(context);
+  const prompt = customPrompt
+    ? `${customPrompt}\n\n${instructions}${contextSection}Here is the diff to review:\n\`\`\`diff\n${diff}\n\`\`\``
+    : `You are a senior software engineer providing a code review.
+Review the following code diff and provide constructive feedback.
+Focus on potential bugs, code clarity, and adherence to best practices.
+Format your response in Markdown.
+
+${instructions}${contextSection}Here is the diff:
+\`\`\`diff
+${diff}
+\`\`\``;
+
+  const reviewText = await provider.generate(redactPrompt(prompt), { responseFormat: 'text' });
+  return `### 🤖 AI Code Review\n\n${reviewText}`;
+}
+
+/**
+ * Token budget per chunk, from REVIEW_CHUNK_TOKEN_BUDGET or the default
+ */
+export function getChunkTokenBudget(): number {
+  const budget = parseInt(process.env.REVIEW_CHUNK_TOKEN_BUDGET || '', 10);
+  return budget > 0 ? budget : DEFAULT_CHUNK_TOKEN_BUDGET;
+}
+
+/**
+ * Maximum concurrent LLM calls per review, from REVIEW_CHUNK_CONCURRENCY or the default
+ */
+export function getChunkConcurrency(): number {
+  const concurrency = parseInt(process.env.REVIEW_CHUNK_CONCURRENCY || '', 10);
+  return concurrency > 0 ? concurrency : DEFAULT_CHUNK_CONCURRENCY;
+}
+
+/**
+ * Context token budget per chunk, from REVIEW_CONTEXT_TOKEN_BUDGET or the default
+ * 0 disables surrounding-code context
+ */
+export function getContextTokenBudget(): number {
+  const budget = parseInt(process.env.REVIEW_CONTEXT_TOKEN_BUDGET || '', 10);
+  return budget >= 0 ? budget : DEFAULT_CONTEXT_TOKEN_BUDGET;
+}
+
+/**
+ * Review a single chunk, falling back to a text review if JSON fails
+ * Never throws: a failed chunk is reported so only its files are degraded
+ */
+export async function reviewChunk(
+  chunk: DiffChunk,
+  index: number,
+  customPrompt: string | null | undefined,
+  provider: LLMProvider,
+  context: string = '',
+  instructions: string = ''
+): Promise<ChunkReviewResult> {
+  const label = `chunk ${index + 1} (${chunk.files.length} file part(s), ~${chunk.tokens} tokens)`;
+
+  try {
+    const comments = await getAiReviewAsJson(chunk.diff, customPrompt, provider, context, instructions);
+    console.log(`[REVIEWER] ${label}: ${comments.length} comment(s)`);
+    return { comments, fallbackReview: null, failed: false };
+  } catch (error) {
+    console.error(`[REVIEWER] ${label}: JSON review failed, attempting fallback:`, error);
+  }
+
+  try {
+    const fallbackReview = await getAiReviewAsText(chunk.diff, customPrompt, provider, context, instructions);
+    console.log(`[REVIEWER] ${label}: fallback text review received`);
+    return { comments: [], fallbackReview, failed: false };
+  } catch (error) {
+    console.error(`[REVIEWER] ${label}: fallback review failed:`, error);
+    return { comments: [], fallbackReview: null, failed: true };
+  }
+}
+
+export interface DiffReviewOptions {
+  customPrompt?: string | null;
+  provider: LLMProvider;
+  chunkTokenBudget?: number | null;
+  contextFor?: (files: DiffFile[]) => string; // Surrounding code for a chunk's files
+  rulePacks?: RulePack[]; // Checklists added per language or path (default: all built-in packs)
+  customRules?: CustomRule[]; // Repository rules run locally over added lines
+  deterministicChecks?: boolean; // Scan for secrets and run customRules (default: true); false = AI findings only
+  passes?: ReviewPass[]; // Focused passes run over every chunk (default: one generic review)
+}
+
+export interface DiffReviewResult extends LineValidationResult {
+  fallbackReviews: string[];
+  failedPaths: Set<string>; // Files with a chunk that failed in every pass
+  uncacheablePaths: Set<string>; // Files with any failed or text-only chunk
+  chunkCount: number;
+  passMetrics: PassMetrics[]; // Empty for a generic review
+}
+
+/**
+ * Scan added lines for secrets and check them against the repository's rules
+ */
+export function runDeterministicChecks(files: DiffFile[], customRules: CustomRule[] = []): LineComment[] {
+  return [
+    ...files.flatMap(scanDiffFileForSecrets),
+    ...files.flatMap((file) => runCustomRules(file, customRules)),
+  ];
+}
+
+/**
+ * Review files in chunks and validate the findings against their diffs
+ * Files are grouped by language so a chunk needs as few rule packs as possible
+ * Added lines are scanned for secrets and checked against the repository's rules
+ * first; AI findings that repeat those deterministic findings are dropped
+ * With passes, every chunk is reviewed once per pass and overlapping findings are merged
+ * Throws only if every chunk failed
+ */
+export async function reviewDiffFiles(files: DiffFile[], options: DiffReviewOptions): Promise<DiffReviewResult> {
+  const deterministicFindings =
+    options.deterministicChecks === false ? [] : runDeterministicChecks(files, options.customRules);
+  const rulePacks = options.rulePacks ?? BUILT_IN_RULE_PACKS;
+  const chunks = chunkDiffFiles(groupFilesByLanguage(files), options.chunkTokenBudget || getChunkTokenBudget());
+  const passes: Array<ReviewPass | null> = options.passes?.length ? options.passes : [null];
+  console.log(
+    `[REVIEWER] Reviewing ${files.length} file(s) in ${chunks.length} chunk(s)${
+      passes[0] ? ` with ${passes.length} pass(es): ${passes.map((p) => p?.id).join(', ')}` : ''
+    }`
+  );
+
+  const contexts = chunks.map((chunk) => options.contextFor?.(chunk.files) ?? '');
+  const checklists = chunks.map((chunk) => formatRulePacksForPrompt(chunk.files, rulePacks));
+  const tasks = passes.flatMap((pass) => chunks.map((chunk, index) => ({ pass, chunk, index })));
+
+  const taskResults = await mapWithConcurrency(tasks, getChunkConcurrency(), async ({ pass, chunk, index }) => {
+    const startTime = Date.now();
+    const instructions = pass ? `${pass.instructions}\n\n${checklists[index]}` : checklists[index];
+    const result = await reviewChunk(chunk, index, options.customPrompt, options.provider, contexts[index], instructions);
+    return { ...result, durationMs: Date.now() - startTime };
+  });
+
+  const aiComments: LineComment[] = [];
+  const fallbackReviews: string[] = [];
+  const failedPaths = new Set<string>();
+  const uncacheablePaths = new Set<string>();
+  const failedPassCounts = new Array<number>(chunks.length).fill(0);
+  const passMetrics = new Map<string, PassMetrics>();
+
+  taskResults.forEach((result, taskIndex) => {
+    const { pass, chunk, index } = tasks[taskIndex];
+    const chunkPaths = chunk.files.map((f) => f.path);
+    if (result.failed) {
+      failedPassCounts[index]++;
+    }
+    if (result.failed || result.fallbackReview) {
+      chunkPaths.forEach((path) => uncacheablePaths.add(path));
+    }
+    if (result.fallbackReview) {
+      fallbackReviews.push(pass ? `#### ${pass.name} pass\n\n${result.fallbackReview}` : result.fallbackReview);
+    }
+    // A suggestion built around a redacted value would replace the real code with the marker
+    aiComments.push(
+      ...result.comments.map((comment) => ({
+        ...comment,
+        ...(comment.suggestion?.includes(REDACTION_MARKER) ? { suggestion: undefined, startLine: undefined } : {}),
+        ...(pass ? { passes: [pass.id] } : {}),
+      }))
+    );
+
+    if (pass) {
+      const metrics = passMetrics.get(pass.id) ?? { pass: pass.id, durationMs: 0, findingCount: 0, failedChunks: 0 };
+      metrics.durationMs += result.durationMs;
+      metrics.findingCount += result.comments.length;
+      metrics.failedChunks += result.failed ? 1 : 0;
+      passMetrics.set(pass.id, metrics);
+    }
+  });
+
+  failedPassCounts.forEach((count, index) => {
+    if (count === passes.length) {
+      chunks[index].files.forEach((f) => failedPaths.add(f.path));
+    }
+  });
+
+  if (failedPaths.size === files.length) {
+    throw new Error(`All ${chunks.length} review chunk(s) failed`);
+  }
+
+  passMetrics.forEach((metrics) =>
+    console.log(
+      `[REVIEWER] ${metrics.pass} pass: ${metrics.findingCount} finding(s) in ${metrics.durationMs}ms` +
+        (metrics.failedChunks > 0 ? `, ${metrics.failedChunks} chunk(s) failed` : '')
+    )
+  );
+
+  const merged = passes[0] ? mergePassFindings(sortBySeverity(aiComments)) : aiComments;
+  const comments = [...deterministicFindings, ...dedupeAgainstRuleFindings(merged, deterministicFindings)];
+
+  // Check reported files/lines against the real hunks before caching or posting
+  const validation = validateLineComments(comments, files.map((f) => f.fullDiff).join('\n'));
+
+  return {
+    ...validation,
+    fallbackReviews,
+    failedPaths,
+    uncacheablePaths,
+    chunkCount: chunks.length,
+    passMetrics: [...passMetrics.values()],
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Multi-pass specialist reviews
+ * Instead of one generic review, a repository can run focused passes over the
+ * same chunks, each with its own instructions. Findings of different passes on
+ * overlapping lines are merged into one comment that credits every pass
+ */
+
+import type { LineComment } from './pr-reviewer';
+
+export interface ReviewPass {
+  id: string;
+  name: string;
+  instructions: string;
+}
+
+// Model time and output of one pass over all chunks of a review
+export interface PassMetrics {
+  pass: string;
+  durationMs: number; // Sum of the pass's LLM calls
+  findingCount: number;
+  failedChunks: number;
+}
+
+export const REVIEW_PASSES: ReviewPass[] = [
+  {
+    id: 'security',
+    name: 'Security',
+    instructions: `This is the security pass. Report only security issues: injection (SQL, command, template), cross-site scripting, missing authentication or authorization checks, unsafe handling of secrets, unsafe deserialization, SSRF, path traversal and missing validation of untrusted input. Use category "security". Other passes cover everything else, so leave it out.`,
+  },
+  {
+    id: 'correctness',
+    name: 'Correctness',
+    instructions: `This is the correctness pass. Report only bugs: logic errors, unhandled edge cases (empty, null, zero, very large inputs), off-by-one errors, wrong error handling, race conditions and behavior that contradicts the code's intent. Use category "bug". Other passes cover everything else, so leave it out.`,
+  },
+  {
+    id: 'performance',
+    name: 'Performance',
+    instructions: `This is the performance pass. Report only performance issues: needless work in loops, N+1 queries, missing pagination or limits, blocking calls on hot paths, unbounded memory growth and missing caching of repeated expensive work. Use category "performance". Other passes cover everything else, so leave it out.`,
+  },
+  {
+    id: 'tests',
+    name: 'Test coverage',
+    instructions: `This is the test coverage pass. Report only testing issues: new or changed behavior without tests, tests that can't fail, missing edge cases in tests, flaky timing or ordering assumptions and over-mocking that hides real behavior. Use category "tests". Other passes cover everything else, so leave it out.`,
+  },
+];
+
+export const REVIEW_PASS_IDS = REVIEW_PASSES.map((pass) => pass.id);
+
+/**
+ * Whether a value is the id of a review pass
+ */
+export function isReviewPassId(value: unknown): value is string {
+  return typeof value === 'string' && REVIEW_PASS_IDS.includes(value);
+}
+
+/**
+ * The passes for a list of ids, in their canonical order; unknown ids are ignored
+ */
+export function resolveReviewPasses(ids: string[]): ReviewPass[] {
+  return REVIEW_PASSES.filter((pass) => ids.includes(pass.id));
+}
+
+/**
+ * Display names of the passes that raised a finding, e.g. "Security + Performance"
+ */
+export function formatPassNames(ids: string[]): string {
+  return ids.map((id) => REVIEW_PASSES.find((pass) => pass.id === id)?.name ?? id).join(' + ');
+}
+
+function overlaps(a: LineComment, b: LineComment): boolean {
+  return (
+    a.file === b.file &&
+    (a.side ?? 'RIGHT') === (b.side ?? 'RIGHT') &&
+    (a.startLine ?? a.line) <= b.line &&
+    (b.startLine ?? b.line) <= a.line
+  );
+}
+
+/**
+ * Merge findings of different passes on overlapping lines
+ * Expects findings sorted most severe first (sortBySeverity): the first finding
+ * on a line leads, the others' comments are appended under their pass names
+ * and every contributing pass is credited
+ */
+export function mergePassFindings(findings: LineComment[]): LineComment[] {
+  const merged: LineComment[] = [];
+
+  for (const finding of findings) {
+    const target = merged.find(
+      (m) => overlaps(m, finding) && !(finding.passes ?? []).every((pass) => m.passes?.includes(pass))
+    );
+    if (!target) {
+      merged.push({ ...finding });
+      continue;
+    }
+
+    if (finding.comment !== target.comment) {
+      target.comment += `\n\n**${formatPassNames(finding.passes ?? [])}:** ${finding.comment}`;
+    }
+    target.passes = [...new Set([...(target.passes ?? []), ...(finding.passes ?? [])])];
+  }
+
+  if (merged.length < findings.length) {
+    console.log(`[REVIEWER] Merged ${findings.length - merged.length} overlapping finding(s) from different passes`);
+  }
+  return merged;
+}
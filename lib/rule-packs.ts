@@ -0,0 +1,413 @@
+/**
+ * Language-aware rule packs
+ * Each changed file's language is detected from its name, extension or shebang,
+ * and the checklists for the languages in a chunk are added to its prompt.
+ * Built-in packs can be turned off per repository; repositories can add their
+ * own packs for a language or for paths matching globs
+ */
+
+import picomatch from 'picomatch';
+import { detectPathLanguage } from './languages';
+import type { DiffFile } from './pr-reviewer';
+
+export interface RuleLanguage {
+  id: string;
+  name: string;
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  language: string | null; // Language id the pack applies to
+  paths: string[]; // Globs the pack applies to, in addition to its language
+  rules: string[];
+}
+
+// A repository's own pack, as stored in the dashboard or .reviewbuddy.yml
+export interface CustomRulePack {
+  name: string;
+  language?: string;
+  paths?: string[];
+  rules: string[];
+}
+
+export const MAX_CUSTOM_RULE_PACKS = 20;
+export const MAX_RULES_PER_PACK = 30;
+const MAX_RULE_LENGTH = 500;
+
+export const RULE_LANGUAGES: RuleLanguage[] = [
+  { id: 'typescript', name: 'TypeScript / JavaScript' },
+  { id: 'python', name: 'Python' },
+  { id: 'go', name: 'Go' },
+  { id: 'rust', name: 'Rust' },
+  { id: 'java', name: 'Java / Kotlin' },
+  { id: 'ruby', name: 'Ruby' },
+  { id: 'sql', name: 'SQL' },
+  { id: 'shell', name: 'Shell' },
+  { id: 'dockerfile', name: 'Dockerfile' },
+  { id: 'github-actions', name: 'GitHub Actions' },
+  { id: 'terraform', name: 'Terraform' },
+];
+
+// Rule pack language of each detected language (see languages.ts)
+const RULE_LANGUAGES_BY_NAME: Record<string, string> = {
+  TypeScript: 'typescript',
+  JavaScript: 'typescript',
+  Python: 'python',
+  Go: 'go',
+  Rust: 'rust',
+  Java: 'java',
+  Kotlin: 'java',
+  Ruby: 'ruby',
+  SQL: 'sql',
+  Shell: 'shell',
+  Dockerfile: 'dockerfile',
+  Terraform: 'terraform',
+};
+
+// Interpreters named in a "#!" line
+const LANGUAGES_BY_INTERPRETER: Array<[RegExp, string]> = [
+  [/^(node|nodejs|deno|bun|ts-node|tsx)$/, 'typescript'],
+  [/^python[\d.]*$/, 'python'],
+  [/^(sh|bash|zsh|dash|ksh)$/, 'shell'],
+  [/^ruby$/, 'ruby'],
+];
+
+export const BUILT_IN_RULE_PACKS: RulePack[] = [
+  {
+    id: 'typescript',
+    name: 'TypeScript / JavaScript',
+    language: 'typescript',
+    paths: [],
+    rules: [
+      'Promises that are neither awaited nor returned, and async callbacks passed to forEach',
+      'Use of `any`, non-null assertions (`!`) or type casts that hide a possible undefined or wrong type',
+      '`==` comparisons and truthiness checks that mistreat 0, "" or NaN',
+      'Unhandled promise rejections and empty catch blocks that swallow errors',
+      'User input reaching innerHTML, dangerouslySetInnerHTML, eval or child_process without sanitizing',
+      'React hooks with missing dependencies or called conditionally, and state mutated in place',
+    ],
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    language: 'python',
+    paths: [],
+    rules: [
+      'Mutable default arguments (lists, dicts, sets)',
+      'Bare `except:` or `except Exception` that swallows errors without logging or re-raising',
+      'Files, sockets and locks opened without a `with` block',
+      'SQL built with f-strings or `%` formatting instead of query parameters',
+      'subprocess calls with `shell=True`, and pickle or yaml.load on untrusted data',
+      'Blocking calls inside `async def` functions',
+    ],
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    language: 'go',
+    paths: [],
+    rules: [
+      'Returned errors that are ignored or assigned to `_`',
+      'Errors wrapped without `%w`, or compared with `==` instead of errors.Is/As',
+      'Goroutines that can leak because nothing cancels or waits for them',
+      'Loop variables captured by goroutines or closures',
+      'Maps and slices shared between goroutines without a mutex',
+      'Missing `defer` for Close/Unlock, and context.Context not passed through',
+    ],
+  },
+  {
+    id: 'rust',
+    name: 'Rust',
+    language: 'rust',
+    paths: [],
+    rules: [
+      '`unwrap()`/`expect()` on values that can fail at runtime outside tests',
+      '`unsafe` blocks without a comment justifying why they are sound',
+      'Unnecessary `clone()` of large values to satisfy the borrow checker',
+      'Blocking I/O or locks held across `.await`',
+      'Integer arithmetic that can overflow or truncate with `as` casts',
+    ],
+  },
+  {
+    id: 'java',
+    name: 'Java / Kotlin',
+    language: 'java',
+    paths: [],
+    rules: [
+      'Resources not closed with try-with-resources or `use`',
+      'Caught exceptions that are ignored or lose their cause when rethrown',
+      'Possible null dereferences and Optional.get() without a presence check',
+      'Shared mutable state accessed from several threads without synchronization',
+      'String concatenation in SQL, JPQL or log statements with user input',
+    ],
+  },
+  {
+    id: 'ruby',
+    name: 'Ruby',
+    language: 'ruby',
+    paths: [],
+    rules: [
+      'SQL fragments interpolated into `where`, `order` or `find_by_sql`',
+      'Mass assignment without strong parameters',
+      'N+1 queries from associations loaded inside loops',
+      '`rescue` without an exception class, or rescuing Exception',
+      'Callbacks with side effects that make models hard to reason about',
+    ],
+  },
+  {
+    id: 'sql',
+    name: 'SQL',
+    language: 'sql',
+    paths: [],
+    rules: [
+      'UPDATE or DELETE without a WHERE clause',
+      'Schema changes that lock large tables or are not backward compatible with running code',
+      'New NOT NULL columns without a default on existing tables',
+      'Queries filtering or joining on columns without an index',
+      '`SELECT *` in views or application queries',
+      'Dynamic SQL built by concatenating input',
+    ],
+  },
+  {
+    id: 'shell',
+    name: 'Shell',
+    language: 'shell',
+    paths: [],
+    rules: [
+      'Missing `set -euo pipefail` (or equivalent error handling) in scripts',
+      'Unquoted variable expansions that break on spaces or globbing',
+      '`cd` without checking it succeeded',
+      'Temporary files created with fixed names instead of mktemp',
+      '`curl | sh` and other downloads executed without verification',
+    ],
+  },
+  {
+    id: 'dockerfile',
+    name: 'Dockerfile',
+    language: 'dockerfile',
+    paths: [],
+    rules: [
+      'Base images without a pinned tag or digest, or using `latest`',
+      'Containers that run as root without a USER instruction',
+      'Secrets passed through ARG/ENV or copied into a layer',
+      'Package manager caches left in the image (apt lists, pip/npm caches)',
+      'COPY of the whole context before dependency installation, defeating layer caching',
+      '`ADD` used for local files or remote URLs where COPY/curl with checksum would do',
+    ],
+  },
+  {
+    id: 'github-actions',
+    name: 'GitHub Actions',
+    language: 'github-actions',
+    paths: [],
+    rules: [
+      'Third-party actions referenced by a branch or tag instead of a full commit SHA',
+      'Untrusted `${{ github.event.* }}` values interpolated into `run:` scripts',
+      '`pull_request_target` workflows that check out and run the PR\'s code',
+      'Missing or overly broad `permissions:` for the GITHUB_TOKEN',
+      'Secrets exposed to steps or jobs that don\'t need them',
+      'Jobs without a `timeout-minutes` or `concurrency` group where runs can pile up',
+    ],
+  },
+  {
+    id: 'terraform',
+    name: 'Terraform',
+    language: 'terraform',
+    paths: [],
+    rules: [
+      'Security groups or firewall rules open to 0.0.0.0/0',
+      'Storage buckets, databases or disks without encryption or with public access',
+      'Secrets in variables defaults, tfvars or outputs not marked sensitive',
+      'Provider and module versions that are not pinned',
+      'Changes that force replacement of stateful resources',
+    ],
+  },
+];
+
+export const BUILT_IN_RULE_PACK_IDS = BUILT_IN_RULE_PACKS.map((pack) => pack.id);
+
+const matchOptions = { dot: true };
+
+/**
+ * Language of the first line of the new file, if the diff shows it and it is a shebang
+ */
+function detectShebangLanguage(lines: string[]): string | null {
+  const header = lines.findIndex((line) => /^@@ -\d+(,\d+)? \+1(,\d+)? @@/.test(line));
+  if (header === -1) {
+    return null;
+  }
+
+  const firstLine = lines.slice(header + 1).find((line) => !line.startsWith('-'));
+  const shebang = firstLine?.slice(1).match(/^#!\s*(\S+)(?:\s+(?:-\S+\s+)*(\S+))?/);
+  if (!shebang) {
+    return null;
+  }
+
+  // "#!/usr/bin/env python3" names the interpreter after env
+  const program = shebang[1].split('/').pop() ?? '';
+  const interpreter = program === 'env' ? shebang[2] ?? '' : program;
+  return LANGUAGES_BY_INTERPRETER.find(([pattern]) => pattern.test(interpreter))?.[1] ?? null;
+}
+
+/**
+ * Detect a changed file's language from its name, extension or shebang
+ * Returns a RULE_LANGUAGES id, or null for files no pack covers
+ */
+export function detectFileLanguage(file: DiffFile): string | null {
+  if (picomatch.isMatch(file.path, '.github/{workflows,actions/**}/*.{yml,yaml}', matchOptions)) {
+    return 'github-actions';
+  }
+
+  const language = detectPathLanguage(file.path);
+  if (language && RULE_LANGUAGES_BY_NAME[language]) {
+    return RULE_LANGUAGES_BY_NAME[language];
+  }
+
+  return detectShebangLanguage(file.lines);
+}
+
+/**
+ * Order files so files of the same language are adjacent, keeping the order
+ * in which languages first appear; files without a language come last
+ */
+export function groupFilesByLanguage(files: DiffFile[]): DiffFile[] {
+  const groups = new Map<string | null, DiffFile[]>();
+  for (const file of files) {
+    const language = detectFileLanguage(file);
+    groups.set(language, [...(groups.get(language) ?? []), file]);
+  }
+
+  const unknown = groups.get(null) ?? [];
+  groups.delete(null);
+  return [...[...groups.values()].flat(), ...unknown];
+}
+
+/**
+ * Convert a repository's own pack to a RulePack
+ */
+function toRulePack(pack: CustomRulePack): RulePack {
+  return {
+    id: `custom/${pack.name}`,
+    name: pack.name,
+    language: pack.language ?? null,
+    paths: pack.paths ?? [],
+    rules: pack.rules,
+  };
+}
+
+/**
+ * The packs a repository reviews with: built-ins that aren't disabled, then its own
+ */
+export function resolveRulePacks(disabled: string[] = [], custom: CustomRulePack[] = []): RulePack[] {
+  return [
+    ...BUILT_IN_RULE_PACKS.filter((pack) => !disabled.includes(pack.id)),
+    ...custom.map(toRulePack),
+  ];
+}
+
+/**
+ * Render the checklists of the packs that apply to a chunk's files
+ * Returns '' when no pack applies
+ */
+export function formatRulePacksForPrompt(files: DiffFile[], packs: RulePack[]): string {
+  const paths = [...new Set(files.map((f) => f.path))];
+  const languages = new Map(files.map((f) => [f.path, detectFileLanguage(f)]));
+
+  const sections = packs.flatMap((pack) => {
+    const covered = paths.filter(
+      (path) =>
+        (pack.language !== null && languages.get(path) === pack.language) ||
+        (pack.paths.length > 0 && picomatch.isMatch(path, pack.paths, matchOptions))
+    );
+    if (covered.length === 0) {
+      return [];
+    }
+    return [`${pack.name} (${covered.join(', ')}):\n${pack.rules.map((rule) => `- ${rule}`).join('\n')}`];
+  });
+
+  if (sections.length === 0) {
+    return '';
+  }
+
+  return `Also check each file against the checklist for its language or path:\n\n${sections.join('\n\n')}\n\n`;
+}
+
+/**
+ * Check a list of built-in pack ids to disable
+ */
+export function validateDisabledRulePacks(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    return ['must be a list of rule pack ids'];
+  }
+
+  return value
+    .filter((id) => !BUILT_IN_RULE_PACK_IDS.includes(id))
+    .map((id) => `Unknown rule pack "${id}" (available: ${BUILT_IN_RULE_PACK_IDS.join(', ')})`);
+}
+
+/**
+ * Check a list of custom rule packs
+ * Returns the problems; an empty array means the packs can be saved
+ */
+export function validateCustomRulePacks(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return ['must be a list of rule packs'];
+  }
+  if (value.length > MAX_CUSTOM_RULE_PACKS) {
+    return [`at most ${MAX_CUSTOM_RULE_PACKS} rule packs are allowed`];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  value.forEach((item: unknown, index) => {
+    const label = `rule pack ${index + 1}`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${label} must be a mapping with "name" and "rules"`);
+      return;
+    }
+
+    const pack = item as Record<string, unknown>;
+    for (const key of Object.keys(pack)) {
+      if (!['name', 'language', 'paths', 'rules'].includes(key)) {
+        errors.push(`${label}: unknown key "${key}"`);
+      }
+    }
+
+    if (typeof pack.name !== 'string' || pack.name.trim() === '') {
+      errors.push(`${label}: "name" must be a non-empty string`);
+    } else if (names.has(pack.name)) {
+      errors.push(`${label}: the name "${pack.name}" is used twice`);
+    } else {
+      names.add(pack.name);
+    }
+
+    if (pack.language !== undefined && !RULE_LANGUAGES.some((l) => l.id === pack.language)) {
+      errors.push(`${label}: "language" must be one of ${RULE_LANGUAGES.map((l) => l.id).join(', ')}`);
+    }
+    if (
+      pack.paths !== undefined &&
+      (!Array.isArray(pack.paths) || pack.paths.some((p) => typeof p !== 'string'))
+    ) {
+      errors.push(`${label}: "paths" must be a list of glob strings`);
+    }
+    if (pack.language === undefined && (!Array.isArray(pack.paths) || pack.paths.length === 0)) {
+      errors.push(`${label}: set a "language", "paths" or both`);
+    }
+
+    if (
+      !Array.isArray(pack.rules) ||
+      pack.rules.length === 0 ||
+      pack.rules.some((r) => typeof r !== 'string' || r.trim() === '')
+    ) {
+      errors.push(`${label}: "rules" must be a non-empty list of strings`);
+    } else if (pack.rules.length > MAX_RULES_PER_PACK) {
+      errors.push(`${label}: at most ${MAX_RULES_PER_PACK} rules are allowed`);
+    } else if (pack.rules.some((r: string) => r.length > MAX_RULE_LENGTH)) {
+      errors.push(`${label}: rules must be at most ${MAX_RULE_LENGTH} characters`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,229 @@
+/**
+ * SARIF 2.1.0 output for findings
+ * One rule per finding category; severities map to SARIF levels and suggested
+ * changes become fixes, so code scanning tools and IDE viewers can show them.
+ * Each review is one run; a log can hold the runs of several reviews
+ *
+ * validateSarifLog checks logs against the published SARIF 2.1.0 JSON schema
+ * (lib/schemas/sarif-2.1.0.json), so a malformed log is caught before it is served
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+import draft04MetaSchema from 'ajv/lib/refs/json-schema-draft-04.json';
+import sarifSchema from './schemas/sarif-2.1.0.json';
+import type { LineComment } from './pr-reviewer';
+import { CATEGORIES, CATEGORY_LABELS, Category, Severity, sortBySeverity } from './findings';
+
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const SARIF_VERSION = '2.1.0';
+
+const TOOL_NAME = 'ReviewBuddy';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  blocker: 'error',
+  major: 'warning',
+  minor: 'note',
+  nit: 'note',
+};
+
+export interface SarifRunOptions {
+  automationId?: string; // Identifies the run, e.g. "owner/repo/pull/12/review/3"
+  repositoryUri?: string; // With revisionId, records which commit was analyzed
+  revisionId?: string;
+}
+
+// The subset of a ReviewMetric needed to export it
+export interface StoredReview {
+  id: number;
+  prNumber: number | null;
+  headSha: string | null;
+  findings: string | null; // JSON array of findings
+}
+
+interface SarifRegion {
+  startLine: number;
+  endLine: number;
+}
+
+interface SarifArtifactLocation {
+  uri: string;
+  uriBaseId: string;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: Array<{ physicalLocation: { artifactLocation: SarifArtifactLocation; region: SarifRegion } }>;
+  properties: { severity: Severity; category: Category; rule?: string; passes?: string[] }; // rule-based / pass attribution
+  fixes?: Array<{
+    description: { text: string };
+    artifactChanges: Array<{
+      artifactLocation: SarifArtifactLocation;
+      replacements: Array<{ deletedRegion: SarifRegion; insertedContent: { text: string } }>;
+    }>;
+  }>;
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      rules: Array<{ id: string; name: string; shortDescription: { text: string } }>;
+    };
+  };
+  automationDetails?: { id: string };
+  versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string }>;
+  results: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: SarifRun[];
+}
+
+function ruleId(category: Category): string {
+  return `reviewbuddy/${category}`;
+}
+
+/**
+ * Map a finding to a SARIF result
+ * Findings on deleted lines point into the base version of the file, so they get no fix
+ */
+function toResult(finding: LineComment): SarifResult {
+  const region = {
+    startLine: finding.startLine ?? finding.line,
+    endLine: finding.line,
+  };
+  // Paths are relative URI references; spaces and other reserved characters must be escaped
+  const artifactLocation = { uri: encodeURI(finding.file), uriBaseId: '%SRCROOT%' };
+
+  return {
+    ruleId: ruleId(finding.category),
+    ruleIndex: CATEGORIES.indexOf(finding.category),
+    level: SARIF_LEVELS[finding.severity],
+    message: {
+      text: finding.rationale ? `${finding.comment}\n\n${finding.rationale}` : finding.comment,
+    },
+    locations: [{ physicalLocation: { artifactLocation, region } }],
+    properties: {
+      severity: finding.severity,
+      category: finding.category,
+      ...(finding.rule ? { rule: finding.rule } : {}),
+      ...(finding.passes?.length ? { passes: finding.passes } : {}),
+    },
+    ...(finding.suggestion !== undefined && finding.side !== 'LEFT'
+      ? {
+          fixes: [
+            {
+              description: { text: 'Suggested change' },
+              artifactChanges: [
+                {
+                  artifactLocation,
+                  replacements: [{ deletedRegion: region, insertedContent: { text: `${finding.suggestion}\n` } }],
+                },
+              ],
+            },
+          ],
+        }
+      : {}),
+  };
+}
+
+/**
+ * Build a SARIF run holding one review's findings
+ */
+export function buildSarifRun(findings: LineComment[], options: SarifRunOptions = {}): SarifRun {
+  return {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        rules: CATEGORIES.map((category) => ({
+          id: ruleId(category),
+          name: category,
+          shortDescription: { text: `${CATEGORY_LABELS[category]} finding` },
+        })),
+      },
+    },
+    ...(options.automationId ? { automationDetails: { id: options.automationId } } : {}),
+    ...(options.repositoryUri
+      ? {
+          versionControlProvenance: [
+            { repositoryUri: options.repositoryUri, ...(options.revisionId ? { revisionId: options.revisionId } : {}) },
+          ],
+        }
+      : {}),
+    results: sortBySeverity(findings).map(toResult),
+  };
+}
+
+/**
+ * Build a SARIF run from a stored review of a GitHub repository
+ * Findings that can't be read are logged and exported as an empty run
+ */
+export function buildStoredReviewRun(review: StoredReview, repositoryFullName: string): SarifRun {
+  let findings: LineComment[] = [];
+  if (review.findings) {
+    try {
+      findings = JSON.parse(review.findings) as LineComment[];
+    } catch (error) {
+      console.error(`[SARIF] Could not read findings of review ${review.id}:`, error);
+    }
+  }
+
+  return buildSarifRun(findings, {
+    automationId: `${repositoryFullName}/pull/${review.prNumber}/review/${review.id}`,
+    repositoryUri: `https://github.com/${repositoryFullName}`,
+    revisionId: review.headSha ?? undefined,
+  });
+}
+
+/**
+ * Wrap runs in a SARIF log
+ */
+export function buildSarifLog(runs: SarifRun[]): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs,
+  };
+}
+
+let schemaValidator: ValidateFunction | null = null;
+
+/**
+ * Compile the published SARIF 2.1.0 schema (a draft-04 JSON schema) once
+ */
+function getSchemaValidator(): ValidateFunction {
+  if (!schemaValidator) {
+    const ajv = new Ajv({ schemaId: 'auto', allErrors: true });
+    ajv.addMetaSchema(draft04MetaSchema);
+    schemaValidator = ajv.compile(sarifSchema);
+  }
+  return schemaValidator;
+}
+
+/**
+ * Validate a log against the SARIF 2.1.0 JSON schema
+ * Also checks that each result's ruleIndex points at its rule, which the schema can't express
+ * Returns the violations; an empty array means the log is valid
+ */
+export function validateSarifLog(log: SarifLog): string[] {
+  const validate = getSchemaValidator();
+  const errors = validate(log)
+    ? []
+    : (validate.errors ?? []).map((error) => `${error.dataPath || 'log'} ${error.message}`);
+
+  (log.runs ?? []).forEach((run, runIndex) => {
+    const rules = run.tool?.driver?.rules ?? [];
+    (run.results ?? []).forEach((result, resultIndex) => {
+      if (rules[result.ruleIndex]?.id !== result.ruleId) {
+        errors.push(`.runs[${runIndex}].results[${resultIndex}].ruleIndex must point at the rule "${result.ruleId}"`);
+      }
+    });
+  });
+
+  return errors;
+}
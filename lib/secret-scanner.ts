@@ -0,0 +1,208 @@
+/**
+ * Deterministic secret scanner
+ * Runs locally before anything is sent to a model: added lines are checked
+ * against known credential formats (AWS, GitHub, Slack, private keys, JWTs) and
+ * for high-entropy values assigned to secret-looking names. Matches become
+ * blocker findings, and prompts are redacted line by line so line numbers in
+ * the diff stay valid. Values are only ever reported masked
+ */
+
+import { getAddedLines } from './line-validator';
+import type { DiffFile, LineComment } from './pr-reviewer';
+
+interface SecretPattern {
+  id: string;
+  name: string;
+  pattern: RegExp;
+  valueGroup?: number; // Capture group holding the secret (default: whole match)
+  entropyCheck?: boolean; // Only report values that look random
+}
+
+interface SecretMatch {
+  id: string;
+  name: string;
+  value: string;
+}
+
+interface ScanState {
+  inPrivateKey: boolean;
+}
+
+export const REDACTION_MARKER = '[REDACTED:';
+
+// Shannon entropy (bits per character) a generic value needs to be reported
+const MIN_ENTROPY = 3.5;
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { id: 'aws-access-key', name: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { id: 'github-token', name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,255}\b/g },
+  { id: 'github-token', name: 'GitHub token', pattern: /\bgithub_pat_[A-Za-z0-9_]{50,255}\b/g },
+  { id: 'slack-token', name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  {
+    id: 'slack-webhook',
+    name: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9/_-]{20,}/g,
+  },
+  {
+    id: 'jwt',
+    name: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    // token = "…", API_KEY: '…', password => "…", AWS_SECRET_ACCESS_KEY=… (unquoted in .env files)
+    id: 'generic-secret',
+    name: 'secret',
+    pattern:
+      /[A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|credential|auth)[A-Za-z0-9_.-]*["']?\s*(?::=|=>|[:=])\s*(["'`]?)([^"'`\s,;]{16,})\1/gi,
+    valueGroup: 2,
+    entropyCheck: true,
+  },
+];
+
+const PRIVATE_KEY_BEGIN = /-----BEGIN ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END ([A-Z0-9]+ )*PRIVATE KEY( BLOCK)?-----/;
+// Base64 runs; a leading "+" is left alone because it may be a diff marker
+const KEY_MATERIAL = /[A-Za-z0-9/=][A-Za-z0-9+/=]{7,}/g;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  counts.forEach((count) => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+/**
+ * Whether a value assigned to a secret-looking name is likely a real credential
+ * References to the environment, templates and identifiers are not
+ */
+function looksLikeSecret(value: string): boolean {
+  if (/^(process\.env|os\.environ|env\.|\$|<|%|\{\{)/.test(value) || value.includes(REDACTION_MARKER)) {
+    return false;
+  }
+  return /\d/.test(value) && /[A-Za-z]/.test(value) && shannonEntropy(value) >= MIN_ENTROPY;
+}
+
+function redaction(id: string): string {
+  return `${REDACTION_MARKER}${id}]`;
+}
+
+/**
+ * Find and redact the secrets on one line
+ * Private keys span lines, so the caller keeps the state between lines
+ */
+function scanLine(line: string, state: ScanState): { redacted: string; matches: SecretMatch[] } {
+  const matches: SecretMatch[] = [];
+  let redacted = line;
+
+  // Key material: everything after a BEGIN header until the END footer, which may be on the same line
+  const begin = redacted.match(PRIVATE_KEY_BEGIN);
+  if (begin || state.inPrivateKey) {
+    const start = begin ? (begin.index ?? 0) + begin[0].length : 0;
+    const end = redacted.slice(start).match(PRIVATE_KEY_END);
+    const stop = end ? start + (end.index ?? 0) : redacted.length;
+    const material = redacted.slice(start, stop).replace(KEY_MATERIAL, redaction('private-key'));
+    redacted = redacted.slice(0, start) + material + redacted.slice(stop);
+    state.inPrivateKey = !end;
+    if (begin) {
+      matches.push({ id: 'private-key', name: 'private key', value: '' });
+    }
+  }
+
+  for (const secret of SECRET_PATTERNS) {
+    for (const match of redacted.matchAll(secret.pattern)) {
+      const value = match[secret.valueGroup ?? 0];
+      if (secret.entropyCheck && !looksLikeSecret(value)) {
+        continue;
+      }
+      // A token assigned to a secret-looking name is reported once, by its specific pattern
+      if (matches.some((m) => m.value && (m.value.includes(value) || value.includes(m.value)))) {
+        continue;
+      }
+      matches.push({ id: secret.id, name: secret.name, value });
+    }
+  }
+
+  for (const match of matches) {
+    if (match.value) {
+      redacted = redacted.split(match.value).join(redaction(match.id));
+    }
+  }
+
+  return { redacted, matches };
+}
+
+/**
+ * Redact secrets from text of any kind (diffs, source files, prompts)
+ * Line breaks are kept, so line positions don't change
+ */
+export function redactSecrets(text: string): string {
+  const state: ScanState = { inPrivateKey: false };
+  return text
+    .split('\n')
+    .map((line) => scanLine(line, state).redacted)
+    .join('\n');
+}
+
+/**
+ * Redact a prompt before it is sent to a model, telling the model about the redactions
+ */
+export function redactPrompt(prompt: string): string {
+  const redacted = redactSecrets(prompt);
+  if (redacted === prompt) {
+    return prompt;
+  }
+
+  return `${redacted}
+
+Values shown as ${REDACTION_MARKER}type] are secrets removed before this review. They are reported separately, so don't comment on them or repeat them in suggestions.`;
+}
+
+/**
+ * Show only the start of a secret
+ */
+function maskSecret(value: string): string {
+  return value.length >= 16 ? `${value.substring(0, 4)}…` : '…';
+}
+
+/**
+ * Scan the added lines of a file diff for secrets
+ * Returns one blocker finding per secret type per line, with the value masked
+ */
+export function scanDiffFileForSecrets(file: DiffFile): LineComment[] {
+  const findings: LineComment[] = [];
+  const state: ScanState = { inPrivateKey: false };
+
+  for (const { line, content } of getAddedLines(file)) {
+    const seen = new Set<string>();
+    for (const match of scanLine(content, state).matches) {
+      if (seen.has(match.id)) continue;
+      seen.add(match.id);
+      findings.push({
+        file: file.path,
+        line,
+        severity: 'blocker',
+        category: 'security',
+        comment: match.value
+          ? `Possible ${match.name} committed (\`${maskSecret(match.value)}\`). Revoke it and load it from the environment or a secret manager instead.`
+          : `Private key committed. Revoke it and load it from a secret manager instead.`,
+        rationale:
+          'Found by the secret scanner; the value was redacted before the diff was sent for review. A committed secret stays in the repository history even after the line is removed.',
+      });
+    }
+  }
+
+  if (findings.length > 0) {
+    console.log(`[SECRETS] ${findings.length} possible secret(s) in ${file.path}`);
+  }
+  return findings;
+}
@@ -0,0 +1,169 @@
+/**
+ * Shadow reviews
+ * In shadow mode a repository's reviews run the whole pipeline but the
+ * rendered review, fallback comments and walkthrough are stored here instead of
+ * being posted, so the team can see what the bot would say before enabling it.
+ * A stored review can later be promoted: posted to the PR exactly as rendered
+ */
+
+import { prisma } from './prisma';
+import { validateFindings } from './findings';
+import { recordPostedComments } from './posted-comments';
+import { getPullRequestState, recordWalkthroughCommentId } from './pr-state';
+import { upsertWalkthroughComment } from './walkthrough';
+import { postReviewToPR, postCommentToPR } from './pr-reviewer';
+import type { LineComment } from './pr-reviewer';
+import type { CodeLocation } from './line-validator';
+
+export interface ShadowComment {
+  comment: LineComment;
+  body: string;
+  contextHash: string; // Stored so duplicate detection works once the comment is posted
+}
+
+export interface ShadowReviewData {
+  repositoryId: number;
+  prNumber: number;
+  headSha: string;
+  repositoryUrl: string;
+  pullRequestUrl: string;
+  commentsUrl: string;
+  summary: string | null;
+  comments: ShadowComment[];
+  unanchored: LineComment[];
+  fallbackReviews: string[];
+  walkthrough: string | null;
+}
+
+export interface StoredShadowComments {
+  comments: ShadowComment[];
+  unanchored: LineComment[];
+  errors: string[]; // Problems with entries that were left out
+}
+
+/**
+ * Store a review instead of posting it
+ */
+export async function saveShadowReview(data: ShadowReviewData): Promise<void> {
+  try {
+    const review = await prisma.shadowReview.create({
+      data: {
+        ...data,
+        // Plain JSON copies; optional fields that are unset are left out
+        comments: JSON.parse(JSON.stringify(data.comments)),
+        unanchored: JSON.parse(JSON.stringify(data.unanchored)),
+      },
+    });
+    console.log(`[SHADOW] Stored review ${review.id} for PR #${data.prNumber} (${data.comments.length} inline comment(s))`);
+  } catch (error) {
+    console.error('[SHADOW] Error storing shadow review:', error);
+  }
+}
+
+/**
+ * Read a stored review's comments, checking them against the findings schema
+ * Invalid entries are left out and reported in errors
+ */
+export function readShadowComments(review: { id: number; comments: unknown; unanchored: unknown }): StoredShadowComments {
+  const errors: string[] = [];
+  const comments: ShadowComment[] = [];
+
+  if (!Array.isArray(review.comments)) {
+    errors.push('comments must be an array');
+  }
+  (Array.isArray(review.comments) ? review.comments : []).forEach((item: unknown, index) => {
+    const { comment, body, contextHash } = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const finding = validateFindings([comment], true);
+    const itemErrors = [
+      ...finding.errors,
+      ...(typeof body === 'string' && body !== '' ? [] : ['body must be a non-empty string']),
+      ...(typeof contextHash === 'string' ? [] : ['contextHash must be a string']),
+    ];
+    if (itemErrors.length > 0) {
+      errors.push(`comments[${index}]: ${itemErrors.join('; ')}`);
+      return;
+    }
+    comments.push({ comment: finding.findings[0], body: body as string, contextHash: contextHash as string });
+  });
+
+  const unanchored = validateFindings(review.unanchored, true);
+  errors.push(...unanchored.errors.map((error) => `unanchored: ${error}`));
+
+  if (errors.length > 0) {
+    console.warn(`[SHADOW] Review ${review.id} has invalid stored comments:`, errors);
+  }
+  return { comments, unanchored: unanchored.findings, errors };
+}
+
+/**
+ * List a repository's shadow reviews, newest first, optionally for one PR
+ * Stored comments that don't match the findings schema are left out
+ */
+export async function getShadowReviews(repositoryId: number, prNumber?: number) {
+  const reviews = await prisma.shadowReview.findMany({
+    where: { repositoryId, ...(prNumber !== undefined ? { prNumber } : {}) },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return reviews.map((review: { id: number; comments: unknown; unanchored: unknown }) => {
+    const { comments, unanchored } = readShadowComments(review);
+    return { ...review, comments, unanchored };
+  });
+}
+
+/**
+ * Post a stored review to its PR as it was rendered
+ * Throws if the review doesn't exist, was already promoted or its stored comments are invalid
+ */
+export async function promoteShadowReview(id: number, token: string) {
+  const review = await prisma.shadowReview.findUnique({ where: { id } });
+  if (!review) {
+    throw new Error(`Shadow review ${id} not found`);
+  }
+  if (review.promotedAt) {
+    throw new Error(`Shadow review ${id} was already posted`);
+  }
+
+  // Nothing is posted from a review that no longer matches the findings schema
+  const { comments, unanchored, errors } = readShadowComments(review);
+  if (errors.length > 0) {
+    throw new Error(`Shadow review ${id} has invalid stored comments: ${errors.join('; ')}`);
+  }
+
+  if (review.summary) {
+    const posted = await postReviewToPR(
+      review.pullRequestUrl,
+      review.headSha,
+      review.summary,
+      comments.map((c) => c.comment),
+      token,
+      unanchored
+    );
+
+    const contextHashes = new Map(comments.map((c) => [`${c.comment.file}:${c.comment.line}`, c.contextHash]));
+    const contextHashFor = (location: CodeLocation) => contextHashes.get(`${location.file}:${location.line}`) ?? '';
+    await recordPostedComments(review.repositoryId, review.prNumber, posted, contextHashFor);
+  }
+
+  for (const body of review.fallbackReviews) {
+    await postCommentToPR(review.commentsUrl, body, token);
+  }
+
+  if (review.walkthrough) {
+    const prState = await getPullRequestState(review.repositoryId, review.prNumber);
+    const walkthroughCommentId = await upsertWalkthroughComment(
+      review.repositoryUrl,
+      review.commentsUrl,
+      prState?.walkthroughCommentId ?? null,
+      review.walkthrough,
+      token
+    );
+    await recordWalkthroughCommentId(review.repositoryId, review.prNumber, walkthroughCommentId);
+  }
+
+  console.log(`[SHADOW] Promoted review ${id} to PR #${review.prNumber}`);
+  return prisma.shadowReview.update({
+    where: { id },
+    data: { promotedAt: new Date() },
+  });
+}
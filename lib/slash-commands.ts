@@ -0,0 +1,198 @@
+/**
+ * Slash commands in PR conversation comments
+ * - /review          force a fresh full review, ignoring cached file reviews
+ * - /review <path>   review a single file (or glob)
+ * - /pause, /resume  stop and restart automatic reviews on the PR
+ * - /ignore <glob>   skip matching paths on the PR
+ *
+ * Only users with write access can run commands. Each command is acknowledged
+ * with a reaction: 👍 accepted, 👎 not allowed, 😕 not understood
+ */
+
+import axios from 'axios';
+import { prisma } from './prisma';
+import { getBotLogin, isBotComment, CommentEventPayload } from './conversation';
+import { setPullRequestPaused, addIgnoredPath } from './pr-state';
+import { getInstallationToken, reviewPullRequest, ReviewOptions } from './pr-reviewer';
+
+export type SlashCommandName = 'review' | 'pause' | 'resume' | 'ignore';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  argument: string | null;
+}
+
+export interface SlashCommandResult {
+  handled: boolean; // false = not a command, the comment can be handled as a follow-up
+  status: string;
+}
+
+type Reaction = '+1' | '-1' | 'confused';
+
+const COMMAND_PATTERN = /^\/(review|pause|resume|ignore)(?:[ \t]+(.*))?$/m;
+const WRITE_PERMISSIONS = ['admin', 'maintain', 'write'];
+
+/**
+ * Parse the first slash command in a comment body, or null if there is none
+ */
+export function parseSlashCommand(body: string): SlashCommand | null {
+  const match = body.replace(/\r\n/g, '\n').match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const argument = (match[2] || '').trim().replace(/^`(.*)`$/, '$1').trim();
+  return { name: match[1] as SlashCommandName, argument: argument || null };
+}
+
+/**
+ * Whether a user can push to the repository
+ */
+async function hasWriteAccess(repositoryUrl: string, login: string, token: string): Promise<boolean> {
+  try {
+    const response = await axios.get(`${repositoryUrl}/collaborators/${encodeURIComponent(login)}/permission`, {
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    });
+    return WRITE_PERMISSIONS.includes(response.data.permission) || WRITE_PERMISSIONS.includes(response.data.role_name);
+  } catch (error) {
+    console.warn(`[COMMANDS] Could not check permission for @${login}:`, error);
+    return false;
+  }
+}
+
+/**
+ * React to the command comment; failures are logged, never thrown
+ */
+async function react(repositoryUrl: string, commentId: number, content: Reaction, token: string): Promise<void> {
+  try {
+    await axios.post(
+      `${repositoryUrl}/issues/comments/${commentId}/reactions`,
+      { content },
+      {
+        headers: {
+          Authorization: `token ${token}`,
+          Accept: 'application/vnd.github.v3+json',
+        },
+      }
+    );
+  } catch (error) {
+    console.warn(`[COMMANDS] Could not react to comment ${commentId}:`, error);
+  }
+}
+
+/**
+ * Run a /review command and log its metrics like a webhook-triggered review
+ */
+async function runReview(
+  payload: CommentEventPayload,
+  repositoryId: number,
+  options: ReviewOptions,
+  token: string
+): Promise<void> {
+  const startTime = Date.now();
+  const pullRequest = (
+    await axios.get(payload.issue!.pull_request!.url, {
+      headers: {
+        Authorization: `token ${token}`,
+        Accept: 'application/vnd.github.v3+json',
+      },
+    })
+  ).data;
+
+  const metrics = await reviewPullRequest(
+    { action: 'slash_command', pull_request: pullRequest, repository: payload.repository },
+    options
+  );
+
+  await prisma.reviewMetric.create({
+    data: {
+      repositoryId,
+      prNumber: pullRequest.number,
+      startTime: new Date(startTime),
+      endTime: new Date(),
+      latencyMs: metrics.latencyMs,
+      success: metrics.success,
+      errorMessage: metrics.errorMessage,
+      lineCommentCount: metrics.lineCommentCount,
+      geminiCallDurationMs: metrics.geminiCallDurationMs,
+      githubApiDurationMs: metrics.githubApiDurationMs,
+      filesTotalCount: metrics.filesTotalCount || 0,
+      fileCachedCount: metrics.fileCachedCount || 0,
+      rejectedCommentCount: metrics.rejectedCommentCount || 0,
+      cacheHit: (metrics.fileCachedCount || 0) > 0,
+      headSha: metrics.headSha ?? null,
+      findings: metrics.findings ? JSON.stringify(metrics.findings) : null,
+      promptVersionId: metrics.promptVersionId ?? null,
+      passMetrics: metrics.passMetrics?.length ? JSON.stringify(metrics.passMetrics) : null,
+    },
+  });
+}
+
+/**
+ * Handle a slash command from an issue_comment event on a pull request
+ */
+export async function handleSlashCommand(payload: CommentEventPayload): Promise<SlashCommandResult> {
+  const { action, comment, repository, issue } = payload;
+
+  if (action !== 'created' || !issue?.pull_request) {
+    return { handled: false, status: 'not_a_command' };
+  }
+
+  const command = parseSlashCommand(comment.body);
+  if (!command) {
+    return { handled: false, status: 'not_a_command' };
+  }
+
+  const token = await getInstallationToken();
+  if (isBotComment(comment, await getBotLogin(token))) {
+    return { handled: true, status: 'bot_comment' };
+  }
+
+  const dbRepository = await prisma.repository.findUnique({
+    where: { githubRepoId: repository.id },
+  });
+  if (!dbRepository) {
+    console.error(`[COMMANDS] Repository ${repository.id} not found in database`);
+    return { handled: true, status: 'repository_not_found' };
+  }
+
+  console.log(`[COMMANDS] /${command.name} from @${comment.user.login} on PR #${issue.number}`);
+
+  if (!(await hasWriteAccess(repository.url, comment.user.login, token))) {
+    console.log(`[COMMANDS] @${comment.user.login} lacks write access, ignoring /${command.name}`);
+    await react(repository.url, comment.id, '-1', token);
+    return { handled: true, status: 'forbidden' };
+  }
+
+  if (command.name === 'ignore' && !command.argument) {
+    await react(repository.url, comment.id, 'confused', token);
+    return { handled: true, status: 'invalid_command' };
+  }
+
+  await react(repository.url, comment.id, '+1', token);
+
+  switch (command.name) {
+    case 'pause':
+      await setPullRequestPaused(dbRepository.id, issue.number, true);
+      return { handled: true, status: 'paused' };
+    case 'resume':
+      await setPullRequestPaused(dbRepository.id, issue.number, false);
+      return { handled: true, status: 'resumed' };
+    case 'ignore':
+      await addIgnoredPath(dbRepository.id, issue.number, command.argument!);
+      return { handled: true, status: 'path_ignored' };
+    case 'review':
+      await runReview(
+        payload,
+        dbRepository.id,
+        command.argument
+          ? { manual: true, onlyPaths: [command.argument] }
+          : { manual: true, fullReview: true },
+        token
+      );
+      return { handled: true, status: 'review_completed' };
+  }
+}
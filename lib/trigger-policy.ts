@@ -0,0 +1,97 @@
+/**
+ * Trigger policy: which pull_request events start a review
+ * Shared by the webhook (to report why a PR was skipped) and the reviewer
+ *
+ * - opened/synchronize review unless another rule skips the PR
+ * - reopened and ready_for_review review when enabled for the repository
+ * - Draft PRs are skipped when skipDrafts is set (the default)
+ * - With a trigger label, PRs are reviewed only once the label is added, and on
+ *   later pushes while it stays on the PR
+ * - Authors and target branches can be ignored with globs (e.g. "dependabot[bot]", "release/*")
+ */
+
+import picomatch from 'picomatch';
+
+export interface TriggerPolicy {
+  skipDrafts?: boolean | null;
+  reviewOnReopened?: boolean | null;
+  reviewOnReadyForReview?: boolean | null;
+  triggerLabel?: string | null;
+  ignoredAuthors?: string[] | null;
+  ignoredBaseBranches?: string[] | null;
+}
+
+export interface TriggerEvent {
+  action: string;
+  label?: { name: string } | null; // Set on "labeled" events
+  pull_request: {
+    draft?: boolean;
+    user?: { login: string } | null;
+    base: { ref: string };
+    labels?: Array<{ name: string }>;
+  };
+}
+
+export type TriggerDecision =
+  | { review: true }
+  | { review: false; rule: string; reason: string };
+
+const REVIEWED_ACTIONS = ['opened', 'synchronize', 'reopened', 'ready_for_review', 'labeled'];
+
+function skip(rule: string, reason: string): TriggerDecision {
+  return { review: false, rule, reason };
+}
+
+function matchesAny(value: string, patterns: string[] | null | undefined): boolean {
+  const globs = (patterns || []).filter(Boolean);
+  // Exact names are checked first: bot logins like "dependabot[bot]" read as character classes in a glob
+  return (
+    globs.some((glob) => glob.toLowerCase() === value.toLowerCase()) ||
+    (globs.length > 0 && picomatch(globs, { nocase: true, dot: true })(value))
+  );
+}
+
+/**
+ * Decide whether a pull_request event should be reviewed under a repository's policy
+ */
+export function evaluateTrigger(event: TriggerEvent, policy: TriggerPolicy | null | undefined): TriggerDecision {
+  const { action, pull_request: pullRequest } = event;
+  const triggerLabel = policy?.triggerLabel?.trim() || null;
+
+  if (!REVIEWED_ACTIONS.includes(action)) {
+    return skip('unsupported_action', `"${action}" events don't trigger reviews`);
+  }
+  if (action === 'reopened' && policy?.reviewOnReopened === false) {
+    return skip('reopened_disabled', 'Reviews on reopen are disabled');
+  }
+  if (action === 'ready_for_review' && policy?.reviewOnReadyForReview === false) {
+    return skip('ready_for_review_disabled', 'Reviews when a draft is marked ready are disabled');
+  }
+  if (action === 'labeled') {
+    if (!triggerLabel) {
+      return skip('unsupported_action', 'Labels only trigger reviews when a trigger label is configured');
+    }
+    if (event.label?.name.toLowerCase() !== triggerLabel.toLowerCase()) {
+      return skip('label_not_trigger', `Only the "${triggerLabel}" label triggers a review`);
+    }
+  } else if (
+    triggerLabel &&
+    !(pullRequest.labels || []).some((l) => l.name.toLowerCase() === triggerLabel.toLowerCase())
+  ) {
+    return skip('label_required', `Reviews run only on PRs labeled "${triggerLabel}"`);
+  }
+
+  if (pullRequest.draft && (policy?.skipDrafts ?? true)) {
+    return skip('draft', 'Draft pull requests are not reviewed');
+  }
+
+  const author = pullRequest.user?.login;
+  if (author && matchesAny(author, policy?.ignoredAuthors)) {
+    return skip('ignored_author', `Pull requests by ${author} are ignored`);
+  }
+  if (matchesAny(pullRequest.base.ref, policy?.ignoredBaseBranches)) {
+    return skip('ignored_base_branch', `Pull requests into ${pullRequest.base.ref} are ignored`);
+  }
+
+  return { review: true };
+}
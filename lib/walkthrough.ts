@@ -0,0 +1,255 @@
+/**
+ * PR walkthrough comment
+ * Summarizes the PR's intent from its title, body and commit messages, lists
+ * every changed file with a one-line summary, calls out risk areas and counts
+ * open findings by severity. One comment per PR, edited in place on later pushes
+ */
+
+import axios from 'axios';
+import type { DiffFile, LineComment } from './pr-reviewer';
+import type { LLMProvider } from './llm';
+import type { SkippedFile } from './path-filters';
+import { estimateTokens } from './chunker';
+import { formatSeverityCounts } from './findings';
+import { redactPrompt } from './secret-scanner';
+
+export const WALKTHROUGH_MARKER = '<!-- reviewbuddy:walkthrough -->';
+
+// Diff text sent for the summaries; larger PRs are summarized from paths and stats
+const WALKTHROUGH_TOKEN_BUDGET = 16000;
+const MAX_FILE_TOKENS = 2000;
+
+export interface Walkthrough {
+  intent: string;
+  files: Array<{ path: string; summary: string }>;
+  risks: string[];
+}
+
+export interface PullRequestDescription {
+  title: string;
+  body: string | null;
+  commitMessages: string[];
+}
+
+export interface WalkthroughStatus {
+  findings: LineComment[]; // Open findings on the PR (new, still applicable, outside the diff and open from earlier reviews)
+  notes: string; // Failure notes and footer, rendered after the findings
+}
+
+const WALKTHROUGH_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    intent: { type: 'string' },
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          summary: { type: 'string' },
+        },
+        required: ['path', 'summary'],
+      },
+    },
+    risks: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['intent', 'files', 'risks'],
+};
+
+/**
+ * Fetch the commit messages of a pull request (first 100 commits)
+ */
+export async function fetchCommitMessages(pullRequestUrl: string, token: string): Promise<string[]> {
+  const response = await axios.get(`${pullRequestUrl}/commits`, {
+    params: { per_page: 100 },
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  });
+
+  return (response.data as Array<{ commit: { message: string } }>).map((c) => c.commit.message.trim());
+}
+
+/**
+ * Count added and removed lines in a file diff
+ */
+function countChanges(file: DiffFile): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  let inHunk = false;
+
+  for (const line of file.lines) {
+    if (line.startsWith('@@')) {
+      inHunk = true;
+    } else if (!inHunk) {
+      continue;
+    } else if (line.startsWith('+')) {
+      additions++;
+    } else if (line.startsWith('-')) {
+      deletions++;
+    }
+  }
+
+  return { additions, deletions };
+}
+
+/**
+ * Validate the model's walkthrough, or null if it doesn't match the schema
+ */
+function parseWalkthrough(text: string): Walkthrough | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1'));
+  } catch {
+    return null;
+  }
+
+  const data = raw as Partial<Walkthrough> | null;
+  if (
+    !data ||
+    typeof data.intent !== 'string' ||
+    !Array.isArray(data.files) ||
+    !data.files.every((f) => f && typeof f.path === 'string' && typeof f.summary === 'string') ||
+    !Array.isArray(data.risks) ||
+    !data.risks.every((r) => typeof r === 'string')
+  ) {
+    return null;
+  }
+
+  return { intent: data.intent, files: data.files, risks: data.risks };
+}
+
+/**
+ * Ask the model for the PR intent, per-file summaries and risk areas
+ * Returns null if the model fails or answers in the wrong format
+ */
+export async function generateWalkthrough(
+  description: PullRequestDescription,
+  files: DiffFile[],
+  provider: LLMProvider
+): Promise<Walkthrough | null> {
+  let remaining = WALKTHROUGH_TOKEN_BUDGET;
+  const diffs = files.map((file) => {
+    const { additions, deletions } = countChanges(file);
+    const header = `### ${file.path} (+${additions} -${deletions})`;
+    if (remaining <= 0) {
+      return header;
+    }
+    const maxChars = Math.min(MAX_FILE_TOKENS, remaining) * 4;
+    const diff =
+      file.fullDiff.length > maxChars ? `${file.fullDiff.substring(0, maxChars)}\n... (truncated)` : file.fullDiff;
+    remaining -= estimateTokens(diff);
+    return `${header}\n\`\`\`diff\n${diff}\n\`\`\``;
+  });
+
+  const commits = description.commitMessages.map((m) => `- ${m.split('\n')[0]}`).join('\n');
+  const prompt = `You are writing a walkthrough of a pull request for its reviewers.
+
+Title: ${description.title}
+
+Description:
+${description.body?.trim() || '(none)'}
+
+Commit messages:
+${commits || '(none)'}
+
+Respond with ONLY a JSON object of the form:
+{"intent": "2-3 sentences on what the PR does and why", "files": [{"path": "path/to/file", "summary": "one line describing the change"}], "risks": ["area that deserves careful review and why"]}
+Include every changed file listed below exactly once. Keep each summary to one line. Use an empty risks array if nothing stands out.
+
+Changed files:
+${diffs.join('\n\n')}`;
+
+  try {
+    const text = await provider.generate(redactPrompt(prompt), { responseFormat: 'json', jsonSchema: WALKTHROUGH_JSON_SCHEMA });
+    const walkthrough = parseWalkthrough(text);
+    if (!walkthrough) {
+      console.warn(`[WALKTHROUGH] Invalid walkthrough from ${provider.name}, posting without summaries`);
+    }
+    return walkthrough;
+  } catch (error) {
+    console.error('[WALKTHROUGH] Failed to generate walkthrough:', error);
+    return null;
+  }
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+}
+
+/**
+ * Render the walkthrough comment
+ * Files the model didn't summarize still get a row; skipped files say why
+ */
+export function formatWalkthrough(
+  walkthrough: Walkthrough | null,
+  files: DiffFile[],
+  skipped: SkippedFile[],
+  status: WalkthroughStatus
+): string {
+  const summaries = new Map((walkthrough?.files || []).map((f) => [f.path, f.summary]));
+  const skipReasons = new Map(skipped.map((s) => [s.path, s.reason]));
+
+  const rows = files.map((file) => {
+    const { additions, deletions } = countChanges(file);
+    const reason = skipReasons.get(file.path);
+    const summary = reason ? `_Not reviewed (${reason})_` : summaries.get(file.path) || '—';
+    return `| \`${escapeTableCell(file.path)}\` | +${additions} −${deletions} | ${escapeTableCell(summary)} |`;
+  });
+
+  const sections = [`${WALKTHROUGH_MARKER}\n### 🧭 Walkthrough`];
+
+  if (walkthrough?.intent) {
+    sections.push(walkthrough.intent.trim());
+  }
+
+  sections.push(`| File | Changes | Summary |\n| --- | --- | --- |\n${rows.join('\n')}`);
+
+  if (walkthrough && walkthrough.risks.length > 0) {
+    sections.push(`#### ⚠️ Risk areas\n\n${walkthrough.risks.map((r) => `- ${r}`).join('\n')}`);
+  }
+
+  const findings =
+    status.findings.length > 0
+      ? `${status.findings.length} open finding(s): ${formatSeverityCounts(status.findings)}`
+      : '✅ No issues found.';
+  sections.push(`#### Findings\n\n${findings}`);
+
+  return `${sections.join('\n\n')}${status.notes}`;
+}
+
+/**
+ * Edit the existing walkthrough comment, or post a new one if there is none
+ * (or it was deleted). Returns the comment ID to store for the next push
+ */
+export async function upsertWalkthroughComment(
+  repositoryUrl: string,
+  commentsUrl: string,
+  existingCommentId: bigint | number | null,
+  body: string,
+  token: string
+): Promise<number> {
+  const headers = {
+    Authorization: `token ${token}`,
+    Accept: 'application/vnd.github.v3+json',
+  };
+
+  if (existingCommentId !== null) {
+    try {
+      await axios.patch(`${repositoryUrl}/issues/comments/${existingCommentId}`, { body }, { headers });
+      console.log(`[WALKTHROUGH] Updated walkthrough comment ${existingCommentId}`);
+      return Number(existingCommentId);
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : null;
+      if (status !== 404) {
+        throw error;
+      }
+      console.log('[WALKTHROUGH] Walkthrough comment was deleted, posting a new one');
+    }
+  }
+
+  const response = await axios.post(commentsUrl, { body }, { headers });
+  console.log(`[WALKTHROUGH] Posted walkthrough comment ${response.data.id}`);
+  return response.data.id;
+}